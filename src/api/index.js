@@ -1,6 +1,7 @@
 import { Router } from "express";
 import admin from "./routes/admin";
 import store from "./routes/store"
+import ms from "./routes/ms"
 import errorHandler from "./middleware/error-handler"
 
 export default (rootDirectory, options) => {
@@ -8,6 +9,7 @@ export default (rootDirectory, options) => {
 
     admin(app, rootDirectory, options);
     store(app, rootDirectory, options);
+    ms(app, rootDirectory, options);
 
     app.use(errorHandler())
 
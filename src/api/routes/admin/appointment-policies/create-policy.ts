@@ -0,0 +1,62 @@
+import { IsString, IsObject, IsOptional, IsInt, Min, Max } from "class-validator"
+import AppointmentPolicyService from "../../../../services/appointment-policy";
+import { validator } from "../../../../utils/validator"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const validated = await validator(AdminPostAppointmentPoliciesReq, req.body)
+
+    const appointmentPolicyService: AppointmentPolicyService = req.scope.resolve("appointmentPolicyService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await appointmentPolicyService.withTransaction(transactionManager).create(validated);
+    })
+
+    res.status(200).json({ policy: result })
+}
+
+// without location_id and product_id it's the default policy
+export class AdminPostAppointmentPoliciesReq {
+    @IsString()
+    @IsOptional()
+    location_id?: string
+
+    @IsString()
+    @IsOptional()
+    product_id?: string
+
+    @IsString()
+    @IsOptional()
+    name?: string
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    free_cancellation_min?: number
+
+    @IsInt()
+    @Min(0)
+    @Max(100)
+    @IsOptional()
+    late_cancellation_fee_percent?: number
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    cancellation_cutoff_min?: number
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    reschedule_cutoff_min?: number
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    max_reschedules?: number
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
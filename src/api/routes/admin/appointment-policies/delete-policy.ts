@@ -0,0 +1,18 @@
+import { EntityManager } from "typeorm";
+import AppointmentPolicyService from "../../../../services/appointment-policy";
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const appointmentPolicyService: AppointmentPolicyService = req.scope.resolve("appointmentPolicyService")
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        return await appointmentPolicyService.withTransaction(transactionManager).delete(id)
+    })
+
+    res.json({
+        id,
+        object: "appointment-policy",
+        deleted: true,
+    })
+}
@@ -0,0 +1,11 @@
+import { defaultAdminAppointmentPolicyRelations } from "."
+import AppointmentPolicyService from "../../../../services/appointment-policy"
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const appointmentPolicyService: AppointmentPolicyService = req.scope.resolve("appointmentPolicyService")
+    const policy = await appointmentPolicyService.retrieve(id, { relations: defaultAdminAppointmentPolicyRelations })
+
+    res.status(200).json({ policy })
+}
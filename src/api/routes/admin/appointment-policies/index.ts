@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { AppointmentPolicy } from "../../../../models/appointment-policy";
+import middlewares from "../../../middleware";
+import "reflect-metadata"
+
+const route = Router()
+
+export default (app) => {
+    app.use("/appointment-policies", route);
+
+    route.post("/", middlewares.wrap(require("./create-policy").default));
+
+    route.get("/", middlewares.wrap(require("./list-policy").default));
+
+    route.get("/:id", middlewares.wrap(require("./get-policy").default));
+
+    route.put("/:id", middlewares.wrap(require("./update-policy").default));
+
+    route.delete("/:id", middlewares.wrap(require("./delete-policy").default));
+
+    return app;
+}
+
+export const defaultAdminAppointmentPolicyRelations = []
+
+export const defaultAdminAppointmentPolicyFields: (keyof AppointmentPolicy)[] = [
+    "id",
+    "location_id",
+    "product_id",
+    "name",
+    "free_cancellation_min",
+    "late_cancellation_fee_percent",
+    "cancellation_cutoff_min",
+    "reschedule_cutoff_min",
+    "max_reschedules",
+    "metadata",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+]
+
+export * from "./list-policy";
+export * from "./create-policy";
+export * from "./update-policy";
+export * from "./delete-policy";
+export * from "./get-policy";
@@ -0,0 +1,54 @@
+import { validator } from "../../../../utils/validator"
+import AppointmentPolicyService from "../../../../services/appointment-policy"
+import { selector } from "../../../../types/appointment-policy"
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import { Type } from "class-transformer"
+import { defaultAdminAppointmentPolicyRelations } from "."
+
+export default async (req, res) => {
+    const validated = await validator(AdminGetAppointmentPoliciesParams, req.query)
+
+    const selector: selector = {}
+
+    if (validated.location_id) {
+        selector.location_id = validated.location_id
+    }
+
+    if (validated.product_id) {
+        selector.product_id = validated.product_id
+    }
+
+    const appointmentPolicyService: AppointmentPolicyService = req.scope.resolve("appointmentPolicyService")
+    const policies = await appointmentPolicyService.list(selector, {
+        take: validated.limit,
+        skip: validated.offset,
+        relations: defaultAdminAppointmentPolicyRelations,
+    })
+
+    res.status(200).json({
+        policies,
+        count: policies.length,
+        offset: validated.offset,
+        limit: validated.limit,
+    })
+}
+
+export class AdminGetAppointmentPoliciesParams {
+    @IsString()
+    @IsOptional()
+    location_id?: string
+
+    @IsString()
+    @IsOptional()
+    product_id?: string
+
+    @IsNumber()
+    @IsOptional()
+    @Type(() => Number)
+    limit = 50
+  
+    @IsNumber()
+    @IsOptional()
+    @Type(() => Number)
+    offset = 0
+}
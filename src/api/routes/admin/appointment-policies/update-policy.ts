@@ -0,0 +1,64 @@
+import { IsString, IsObject, IsOptional, IsInt, Min, Max } from "class-validator"
+import AppointmentPolicyService from "../../../../services/appointment-policy";
+import { validator } from "../../../../utils/validator"
+import { EntityManager } from "typeorm"
+import { defaultAdminAppointmentPolicyFields, defaultAdminAppointmentPolicyRelations } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const validated = await validator(AdminPostAppointmentPoliciesPolicyReq, req.body)
+
+    const appointmentPolicyService: AppointmentPolicyService = req.scope.resolve("appointmentPolicyService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await appointmentPolicyService
+        .withTransaction(transactionManager)
+        .update(id, validated)
+    })
+
+    const policy = await appointmentPolicyService.retrieve(id, {
+        select: defaultAdminAppointmentPolicyFields,
+        relations: defaultAdminAppointmentPolicyRelations,
+    })
+
+    res.json({ policy })
+}
+
+// null remove a rule
+export class AdminPostAppointmentPoliciesPolicyReq {
+    @IsString()
+    @IsOptional()
+    name?: string
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    free_cancellation_min?: number | null
+
+    @IsInt()
+    @Min(0)
+    @Max(100)
+    @IsOptional()
+    late_cancellation_fee_percent?: number
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    cancellation_cutoff_min?: number | null
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    reschedule_cutoff_min?: number | null
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    max_reschedules?: number | null
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
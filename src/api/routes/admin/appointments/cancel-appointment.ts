@@ -0,0 +1,42 @@
+import { IsString, IsOptional, IsBoolean } from "class-validator"
+import AppointmentService from "../../../../services/appointment"
+import { validator } from "../../../../utils/validator"
+import { EntityManager } from "typeorm"
+import { defaultAdminAppointmentFields, defaultAdminAppointmentRelations } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const validated = await validator(AdminPostAppointmentsCancelReq, req.body)
+
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await appointmentService
+        .withTransaction(transactionManager)
+        .cancel(id, {
+            canceled_by: req.user?.id ?? req.user?.userId,
+            reason: validated.reason,
+            apply_policy: validated.apply_policy,
+        })
+    })
+
+    const appointment = await appointmentService.retrieve(id, {
+        select: defaultAdminAppointmentFields,
+        relations: defaultAdminAppointmentRelations,
+    })
+
+    res.json({ appointment })
+}
+
+export class AdminPostAppointmentsCancelReq {
+    @IsString()
+    @IsOptional()
+    reason?: string
+
+    // keep the fee of the cancellation policy, the appointment is canceled for free by default
+    @IsBoolean()
+    @IsOptional()
+    apply_policy?: boolean = false
+}
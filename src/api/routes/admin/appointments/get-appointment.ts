@@ -4,7 +4,7 @@ export default async (req, res) => {
     const { id } = req.params
 
     const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
-    const appointment = await appointmentService.retrieve(id, { relations: ["order"] })
+    const appointment = await appointmentService.retrieve(id, { relations: ["order", "items"] })
 
     res.status(200).json({ appointment })
 }
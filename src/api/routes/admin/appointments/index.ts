@@ -18,10 +18,21 @@ export default (app) => {
 
     route.delete("/:id", middlewares.wrap(require("./delete-appointment").default));
 
+    // status transitions
+    route.post("/:id/confirm", middlewares.wrap(require("./confirm-appointment").default));
+
+    route.post("/:id/start", middlewares.wrap(require("./start-appointment").default));
+
+    route.post("/:id/finish", middlewares.wrap(require("./finish-appointment").default));
+
+    route.post("/:id/cancel", middlewares.wrap(require("./cancel-appointment").default));
+
+    route.post("/:id/no-show", middlewares.wrap(require("./no-show-appointment").default));
+
     return app;
 }
 
-export const defaultAdminAppointmentRelations = []
+export const defaultAdminAppointmentRelations = ["items"]
 
 export const defaultAdminAppointmentFields: (keyof Appointment)[] = [
     "id",
@@ -34,6 +45,11 @@ export const defaultAdminAppointmentFields: (keyof Appointment)[] = [
     "order_id",
     "code",
     "is_confirmed",
+    "canceled_at",
+    "canceled_by",
+    "cancellation_reason",
+    "reschedule_history",
+    "ics_sequence",
     "metadata",
     "created_at",
     "updated_at",
@@ -44,4 +60,5 @@ export * from "./list-appointment";
 export * from "./create-appointment";
 export * from "./update-appointment";
 export * from "./delete-appointment";
-export * from "./get-appointment";
\ No newline at end of file
+export * from "./get-appointment";
+export * from "./cancel-appointment";
\ No newline at end of file
@@ -0,0 +1,23 @@
+import AppointmentService from "../../../../services/appointment"
+import { EntityManager } from "typeorm"
+import { defaultAdminAppointmentFields, defaultAdminAppointmentRelations } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await appointmentService
+        .withTransaction(transactionManager)
+        .start(id)
+    })
+
+    const appointment = await appointmentService.retrieve(id, {
+        select: defaultAdminAppointmentFields,
+        relations: defaultAdminAppointmentRelations,
+    })
+
+    res.json({ appointment })
+}
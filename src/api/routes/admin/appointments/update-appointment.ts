@@ -1,10 +1,9 @@
 import { validator } from "../../../../utils/validator"
-import { IsString, IsObject, IsDate, IsOptional, IsEnum, IsBoolean, NotEquals, ValidateIf } from "class-validator"
+import { IsString, IsObject, IsDate, IsOptional, IsBoolean } from "class-validator"
 import { Type } from "class-transformer"
 import AppointmentService from "../../../../services/appointment"
 import { EntityManager } from "typeorm"
 import { defaultAdminAppointmentFields, defaultAdminAppointmentRelations } from "."
-import { AppointmentStatus } from "../../../../models/appointment"
 
 export default async (req, res) => {
     const { id } = req.params
@@ -28,13 +27,8 @@ export default async (req, res) => {
     res.json({ appointment })
 }
 
+// the status is changed with the transition routes (confirm, start, finish, cancel, no-show) which release the slot and emit the events
 export class AdminPostAppointmentsAppointmentReq {
-    @IsOptional()
-    @IsEnum(AppointmentStatus)
-    @NotEquals(null)
-    @ValidateIf((object, value) => value !== undefined)
-    status?: AppointmentStatus
-
     @IsDate()
     @IsOptional()
     @Type(() => Date)
@@ -1,6 +1,9 @@
-import { IsString, IsObject, IsHexColor, IsOptional } from "class-validator"
+import { IsString, IsObject, IsHexColor, IsOptional, IsIn, IsInt, Min, IsMilitaryTime } from "class-validator"
 import CalendarService from "../../../../services/calendar";
 import { validator } from "../../../../utils/validator"
+import { Type } from "class-transformer"
+import { IsTimezone } from "../../../../utils/validators/is-timezone"
+import { SLOT_INTERVALS } from "../../../../utils/availability"
 import { EntityManager } from "typeorm"
 
 export default async (req, res) => {
@@ -24,6 +27,49 @@ export class AdminPostCalendarsReq {
     @IsOptional()
     color: string
 
+    @IsTimezone()
+    @IsOptional()
+    timezone?: string
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @IsOptional()
+    slot_interval_min?: number
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @IsOptional()
+    slot_alignment_min?: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @IsOptional()
+    buffer_before_min?: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @IsOptional()
+    buffer_after_min?: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @IsOptional()
+    min_notice_min?: number
+
+    @IsInt()
+    @Min(1)
+    @Type(() => Number)
+    @IsOptional()
+    max_horizon_days?: number
+
+    @IsString()
+    @IsMilitaryTime()
+    @IsOptional()
+    same_day_cutoff?: string
+
     @IsObject()
     @IsOptional()
     metadata?: Record<string, unknown>
@@ -0,0 +1,37 @@
+import { IsString, IsObject, IsOptional, IsBoolean } from "class-validator"
+import CalendarFeedService from "../../../../../services/calendar-feed";
+import { validator } from "../../../../../utils/validator"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+    const validated = await validator(AdminPostCalendarFeedsReq, req.body)
+
+    const calendarFeedService: CalendarFeedService = req.scope.resolve("calendarFeedService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const { feed, token } = await manager.transaction(async (transactionManager) => {
+        return await calendarFeedService.withTransaction(transactionManager).create(id, validated);
+    })
+
+    // the token can't be read again, a lost url is revoked and a new feed is created
+    res.status(200).json({
+        feed,
+        token,
+        url: `/ms/calendars/${id}/feed.ics?token=${token}`,
+    })
+}
+
+export class AdminPostCalendarFeedsReq {
+    @IsString()
+    @IsOptional()
+    name?: string
+
+    @IsBoolean()
+    @IsOptional()
+    include_customer_details?: boolean
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
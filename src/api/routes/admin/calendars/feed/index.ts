@@ -0,0 +1,33 @@
+import { Router } from "express";
+import { CalendarFeed } from "../../../../../models/calendar-feed";
+import middlewares from "../../../../middleware";
+import "reflect-metadata"
+
+const route = Router()
+
+export default (app) => {
+    app.use("/", route);
+
+    route.post("/:id/feeds", middlewares.wrap(require("./create-feed").default));
+
+    route.get("/:id/feeds", middlewares.wrap(require("./list-feed").default));
+
+    route.post("/:id/feeds/:idFeed/revoke", middlewares.wrap(require("./revoke-feed").default));
+
+    return app;
+}
+
+export const defaultAdminCalendarFeedFields: (keyof CalendarFeed)[] = [
+    "id",
+    "calendar_id",
+    "name",
+    "include_customer_details",
+    "revoked_at",
+    "last_used_at",
+    "metadata",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+]
+
+export * from "./create-feed";
@@ -0,0 +1,14 @@
+import CalendarFeedService from "../../../../../services/calendar-feed"
+import { defaultAdminCalendarFeedFields } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const calendarFeedService: CalendarFeedService = req.scope.resolve("calendarFeedService")
+    const feeds = await calendarFeedService.list({ calendar_id: id }, {
+        select: defaultAdminCalendarFeedFields,
+        order: { created_at: "DESC" },
+    })
+
+    res.status(200).json({ feeds, count: feeds.length })
+}
@@ -0,0 +1,19 @@
+import CalendarFeedService from "../../../../../services/calendar-feed"
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id, idFeed } = req.params
+
+    const calendarFeedService: CalendarFeedService = req.scope.resolve("calendarFeedService")
+
+    const calendarFeed = await calendarFeedService.retrieve(idFeed, {})
+    if (calendarFeed.calendar_id != id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `CalendarFeed with ${idFeed} was not found`)
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const feed = await manager.transaction(async (transactionManager) => {
+        return await calendarFeedService.withTransaction(transactionManager).revoke(idFeed);
+    })
+
+    res.status(200).json({ feed })
+}
@@ -0,0 +1,36 @@
+import { IsString, IsObject, IsOptional, IsBoolean } from "class-validator"
+import CalendarImportService from "../../../../../services/calendar-import";
+import { validator } from "../../../../../utils/validator"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+    const validated = await validator(AdminPostCalendarImportSourcesReq, req.body)
+
+    const calendarImportService: CalendarImportService = req.scope.resolve("calendarImportService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await calendarImportService.withTransaction(transactionManager).create(id, validated);
+    })
+
+    res.status(200).json({ source: result })
+}
+
+export class AdminPostCalendarImportSourcesReq {
+    @IsString()
+    @IsOptional()
+    name?: string
+
+    // http(s) or webcal url of the .ics file
+    @IsString()
+    url: string
+
+    @IsBoolean()
+    @IsOptional()
+    is_enabled?: boolean
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
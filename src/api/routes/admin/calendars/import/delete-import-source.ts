@@ -0,0 +1,23 @@
+import CalendarImportService from "../../../../../services/calendar-import"
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id, idSource } = req.params
+
+    const calendarImportService: CalendarImportService = req.scope.resolve("calendarImportService")
+
+    const calendarImportSource = await calendarImportService.retrieve(idSource, {})
+    if (calendarImportSource.calendar_id != id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `CalendarImportSource with ${idSource} was not found`)
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        return await calendarImportService.withTransaction(transactionManager).delete(idSource);
+    })
+
+    res.status(200).json({
+        id: idSource,
+        object: "calendar_import_source",
+        deleted: true,
+    })
+}
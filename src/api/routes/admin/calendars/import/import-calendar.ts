@@ -0,0 +1,38 @@
+import { IsOptional, IsString, Matches } from "class-validator"
+import { EntityManager } from "typeorm"
+import CalendarImportService from "../../../../../services/calendar-import"
+import { validator } from "../../../../../utils/validator"
+
+// an uploaded file replace the events of the previous upload with the same ics_key, the sources keep their own events
+export default async (req, res) => {
+    const { id } = req.params
+
+    // a raw .ics upload
+    const body = typeof req.body === "string" ? { ics: req.body, ics_key: req.query.ics_key } : req.body
+
+    const validated = await validator(AdminPostCalendarImportReq, body)
+
+    const calendarImportService: CalendarImportService = req.scope.resolve("calendarImportService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await calendarImportService
+        .withTransaction(transactionManager)
+        .importICalendar(id, validated.ics, null, validated.ics_key)
+    })
+
+    res.status(200).json({ result })
+}
+
+export class AdminPostCalendarImportReq {
+    // content of the .ics file
+    @IsString()
+    ics: string
+
+    // name of the uploaded file, like "practice-tool", the events of the other files are kept
+    // no colon, it separates the key from the uid of the event
+    @IsString()
+    @Matches(/^[\w-]+$/)
+    @IsOptional()
+    ics_key?: string
+}
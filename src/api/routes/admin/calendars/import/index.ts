@@ -0,0 +1,48 @@
+import { Router } from "express";
+import * as bodyParser from "body-parser";
+import { CalendarImportSource } from "../../../../../models/calendar-import-source";
+import middlewares from "../../../../middleware";
+import "reflect-metadata"
+
+const route = Router()
+
+export default (app) => {
+    app.use("/", route);
+
+    // the .ics file can be sent as the raw body with content type text/calendar
+    route.post(
+        "/:id/import",
+        bodyParser.text({ type: "text/calendar", limit: "5mb" }),
+        middlewares.wrap(require("./import-calendar").default)
+    );
+
+    route.post("/:id/import-sources", middlewares.wrap(require("./create-import-source").default));
+
+    route.get("/:id/import-sources", middlewares.wrap(require("./list-import-source").default));
+
+    route.put("/:id/import-sources/:idSource", middlewares.wrap(require("./update-import-source").default));
+
+    route.delete("/:id/import-sources/:idSource", middlewares.wrap(require("./delete-import-source").default));
+
+    route.post("/:id/import-sources/:idSource/sync", middlewares.wrap(require("./sync-import-source").default));
+
+    return app;
+}
+
+export const defaultAdminCalendarImportSourceFields: (keyof CalendarImportSource)[] = [
+    "id",
+    "calendar_id",
+    "name",
+    "url",
+    "is_enabled",
+    "last_synced_at",
+    "last_error",
+    "metadata",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+]
+
+export * from "./import-calendar";
+export * from "./create-import-source";
+export * from "./update-import-source";
@@ -0,0 +1,14 @@
+import CalendarImportService from "../../../../../services/calendar-import"
+import { defaultAdminCalendarImportSourceFields } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const calendarImportService: CalendarImportService = req.scope.resolve("calendarImportService")
+    const sources = await calendarImportService.list({ calendar_id: id }, {
+        select: defaultAdminCalendarImportSourceFields,
+        order: { created_at: "DESC" },
+    })
+
+    res.status(200).json({ sources, count: sources.length })
+}
@@ -0,0 +1,17 @@
+import CalendarImportService from "../../../../../services/calendar-import"
+import { MedusaError } from "medusa-core-utils"
+
+// sync now instead of waiting for the calendar-import-sync job
+export default async (req, res) => {
+    const { id, idSource } = req.params
+
+    const calendarImportService: CalendarImportService = req.scope.resolve("calendarImportService")
+
+    const calendarImportSource = await calendarImportService.retrieve(idSource, {})
+    if (calendarImportSource.calendar_id != id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `CalendarImportSource with ${idSource} was not found`)
+
+    // not in a transaction, a failed sync keep its error in the source
+    const result = await calendarImportService.sync(idSource)
+
+    res.status(200).json({ result })
+}
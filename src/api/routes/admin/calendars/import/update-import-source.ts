@@ -0,0 +1,40 @@
+import { IsString, IsObject, IsOptional, IsBoolean } from "class-validator"
+import CalendarImportService from "../../../../../services/calendar-import";
+import { validator } from "../../../../../utils/validator"
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id, idSource } = req.params
+    const validated = await validator(AdminPostCalendarImportSourcesSourceReq, req.body)
+
+    const calendarImportService: CalendarImportService = req.scope.resolve("calendarImportService")
+
+    const calendarImportSource = await calendarImportService.retrieve(idSource, {})
+    if (calendarImportSource.calendar_id != id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `CalendarImportSource with ${idSource} was not found`)
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await calendarImportService.withTransaction(transactionManager).update(idSource, validated);
+    })
+
+    res.status(200).json({ source: result })
+}
+
+export class AdminPostCalendarImportSourcesSourceReq {
+    @IsString()
+    @IsOptional()
+    name?: string
+
+    @IsString()
+    @IsOptional()
+    url?: string
+
+    @IsBoolean()
+    @IsOptional()
+    is_enabled?: boolean
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
@@ -4,6 +4,8 @@ import middlewares from "../../../middleware";
 import "reflect-metadata"
 
 import timeperiod from "./timeperiod";
+import feed from "./feed";
+import calendarImport from "./import";
 
 const route = Router()
 
@@ -12,6 +14,10 @@ export default (app) => {
 
     timeperiod(route);
 
+    feed(route);
+
+    calendarImport(route);
+
     route.post("/", middlewares.wrap(require("./create-calendar").default));
 
     route.get("/", middlewares.wrap(require("./list-calendar").default));
@@ -31,6 +37,14 @@ export const defaultAdminCalendarFields: (keyof Calendar)[] = [
     "id",
     "name",
     "color",
+    "timezone",
+    "slot_interval_min",
+    "slot_alignment_min",
+    "buffer_before_min",
+    "buffer_after_min",
+    "min_notice_min",
+    "max_horizon_days",
+    "same_day_cutoff",
     "metadata",
     "created_at",
     "updated_at",
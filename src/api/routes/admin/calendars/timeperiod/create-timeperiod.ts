@@ -1,6 +1,8 @@
-import { IsString, IsObject, IsDate, IsOptional } from "class-validator"
+import { IsString, IsObject, IsDate, IsOptional, IsArray } from "class-validator"
 import CalendarTimeperiodService from "../../../../../services/calendar-timeperiod";
+import LocationService from "../../../../../services/location";
 import { validator } from "../../../../../utils/validator"
+import { IsTimezone } from "../../../../../utils/validators/is-timezone"
 import { EntityManager } from "typeorm"
 import { Type } from "class-transformer"
 
@@ -11,6 +13,12 @@ export default async (req, res) => {
     const validated = await validator(AdminPostCalendarTimeperiodsReq, req.body)
 
     const calendarTimeperiodService: CalendarTimeperiodService = req.scope.resolve("calendarTimeperiodService")
+    const locationService: LocationService = req.scope.resolve("locationService")
+
+    // recurring timeperiods are expanded in the calendar time zone when none is given
+    if (validated.rrule && !validated.timezone) {
+        validated.timezone = await locationService.retrieveTimezoneByCalendarId(id)
+    }
 
     const manager: EntityManager = req.scope.resolve("manager")
     const result = await manager.transaction(async (transactionManager) => {
@@ -38,6 +46,20 @@ export class AdminPostCalendarTimeperiodsReq {
     @IsString()
     calendar_id: string
 
+    @IsString()
+    @IsOptional()
+    rrule?: string
+
+    @IsArray()
+    @IsDate({ each: true })
+    @IsOptional()
+    @Type(() => Date)
+    exdates?: Date[]
+
+    @IsTimezone()
+    @IsOptional()
+    timezone?: string
+
     @IsObject()
     @IsOptional()
     metadata?: Record<string, unknown>
@@ -1,15 +1,28 @@
 import { EntityManager } from "typeorm";
+import { IsDate, IsEnum, IsOptional, ValidateIf } from "class-validator"
+import { Type } from "class-transformer"
 import CalendarTimeperiodService from "../../../../../services/calendar-timeperiod";
 import CalendarService from "../../../../../services/calendar";
+import { RecurrenceScope } from "../../../../../types/calendar-timeperiod";
+import { validator } from "../../../../../utils/validator"
 
 export default async (req, res) => {
     const { id, idTime } = req.params
 
+    const validated = await validator(AdminDeleteCalendarTimeperiodParams, req.query)
+
     const calendarTimeperiodService: CalendarTimeperiodService = req.scope.resolve("calendarTimeperiodService")
     const calendarService: CalendarService = req.scope.resolve("calendarService")
     const manager: EntityManager = req.scope.resolve("manager")
     await manager.transaction(async (transactionManager) => {
         await calendarService.retrieve(id, {}); // make sure parent / calendar_id is exists
+
+        if (validated.scope) {
+            return await calendarTimeperiodService
+            .withTransaction(transactionManager)
+            .deleteOccurrence(idTime, validated.occurrence, validated.scope)
+        }
+
         return await calendarTimeperiodService.withTransaction(transactionManager).delete(idTime)
     })
 
@@ -19,3 +32,15 @@ export default async (req, res) => {
         deleted: true,
     })
 }
+
+export class AdminDeleteCalendarTimeperiodParams {
+    @IsEnum(RecurrenceScope)
+    @IsOptional()
+    scope?: RecurrenceScope
+
+    // original start of the occurrence, needed when only this or the following occurrences are deleted
+    @IsDate()
+    @ValidateIf((o) => o.scope && o.scope !== RecurrenceScope.ALL)
+    @Type(() => Date)
+    occurrence?: Date
+}
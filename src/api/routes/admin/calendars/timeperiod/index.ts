@@ -30,6 +30,15 @@ export const defaultAdminCalendarTimeperiodFields: (keyof CalendarTimeperiod)[]
     "to",
     "type",
     "calendar_id",
+    "rrule",
+    "exdates",
+    "timezone",
+    "recurrence_until",
+    "recurring_parent_id",
+    "recurrence_id",
+    "expires_at",
+    "external_uid",
+    "import_source_id",
     "metadata",
     "created_at",
     "updated_at",
@@ -1,7 +1,8 @@
 import CalendarTimeperiodService from "../../../../../services/calendar-timeperiod"
 import { validator } from "../../../../../utils/validator"
-import { IsString, IsOptional, ValidateNested } from "class-validator"
-import { Type } from "class-transformer"
+import { IsString, IsOptional, ValidateNested, IsBoolean } from "class-validator"
+import { Type, Transform } from "class-transformer"
+import { MedusaError } from "medusa-core-utils"
 import { selector } from "../../../../../types/calendar-timeperiod"
 
 export default async (req, res) => {
@@ -11,6 +12,27 @@ export default async (req, res) => {
 
     const calendarTimeperiodService: CalendarTimeperiodService = req.scope.resolve("calendarTimeperiodService")
 
+    // list every occurrence of the recurring timeperiods in the range instead of the rows
+    if (validated.expand) {
+        if (!validated.from || !validated.to) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `from and to are required to expand the timeperiods`
+            )
+        }
+
+        const occurrences = await calendarTimeperiodService.listOccurrences(
+            { calendar_id: id },
+            new Date(validated.from),
+            new Date(validated.to)
+        )
+
+        return res.status(200).json({
+            calendarTimeperiods: occurrences,
+            count: occurrences.length,
+        })
+    }
+
     const [calendarTimeperiods, count] = await calendarTimeperiodService.listCustom(id, validated.from, validated.to);
 
     res.status(200).json({
@@ -27,4 +49,9 @@ export class AdminGetCalendarTimeperiodsParams {
     @IsString()
     @IsOptional()
     to?: string
-}
\ No newline at end of file
+
+    @IsBoolean()
+    @IsOptional()
+    @Transform(({ value }) => value === "true" || value === true)
+    expand?: boolean
+}
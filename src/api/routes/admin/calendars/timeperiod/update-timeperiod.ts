@@ -1,7 +1,10 @@
 import { validator } from "../../../../../utils/validator"
-import { IsString, IsObject, IsDate, IsOptional } from "class-validator"
+import { IsString, IsObject, IsDate, IsOptional, IsArray, IsEnum, ValidateIf } from "class-validator"
 import CalendarTimeperiodService from "../../../../../services/calendar-timeperiod"
 import CalendarService from "../../../../../services/calendar"
+import LocationService from "../../../../../services/location"
+import { IsTimezone } from "../../../../../utils/validators/is-timezone"
+import { RecurrenceScope } from "../../../../../types/calendar-timeperiod"
 import { EntityManager } from "typeorm"
 import { defaultAdminCalendarTimeperiodFields, defaultAdminCalendarTimeperiodRelations } from "."
 import { Type } from "class-transformer"
@@ -13,17 +16,32 @@ export default async (req, res) => {
     await calendarService.retrieve(id, {}); // make sure parent / calendar_id is exists
 
     const validated = await validator(AdminPostCalendarsCalendarReq, req.body)
+    const { scope, occurrence, ...update } = validated
 
     const calendarTimeperiodService: CalendarTimeperiodService = req.scope.resolve("calendarTimeperiodService")
+    const locationService: LocationService = req.scope.resolve("locationService")
+
+    // recurring timeperiods are expanded in the calendar time zone when none is given
+    if (update.rrule && !update.timezone) {
+        const current = await calendarTimeperiodService.retrieve(idTime, {})
+        update.timezone = current.timezone || await locationService.retrieveTimezoneByCalendarId(id)
+    }
 
     const manager: EntityManager = req.scope.resolve("manager")
-    await manager.transaction(async (transactionManager) => {
-        await calendarTimeperiodService
+    const result = await manager.transaction(async (transactionManager) => {
+        if (scope) {
+            return await calendarTimeperiodService
+            .withTransaction(transactionManager)
+            .updateOccurrence(idTime, occurrence, scope, update)
+        }
+
+        return await calendarTimeperiodService
         .withTransaction(transactionManager)
-        .update(idTime, validated)
+        .update(idTime, update)
     })
 
-    const calendar = await calendarTimeperiodService.retrieve(idTime, {
+    // editing one or the following occurrences create a new timeperiod
+    const calendar = await calendarTimeperiodService.retrieve(result.id, {
         select: defaultAdminCalendarTimeperiodFields,
         relations: defaultAdminCalendarTimeperiodRelations,
     })
@@ -54,7 +72,31 @@ export class AdminPostCalendarsCalendarReq {
     @IsOptional()
     calendar_id: string
 
+    @IsString()
+    @IsOptional()
+    rrule?: string | null
+
+    @IsArray()
+    @IsDate({ each: true })
+    @IsOptional()
+    @Type(() => Date)
+    exdates?: Date[]
+
+    @IsTimezone()
+    @IsOptional()
+    timezone?: string
+
+    @IsEnum(RecurrenceScope)
+    @IsOptional()
+    scope?: RecurrenceScope
+
+    // original start of the occurrence, needed when only this or the following occurrences are changed
+    @IsDate()
+    @ValidateIf((o) => o.scope && o.scope !== RecurrenceScope.ALL)
+    @Type(() => Date)
+    occurrence?: Date
+
     @IsObject()
     @IsOptional()
     metadata?: Record<string, unknown>
-}
\ No newline at end of file
+}
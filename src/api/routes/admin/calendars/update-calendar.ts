@@ -1,5 +1,8 @@
 import { validator } from "../../../../utils/validator"
-import { IsString, IsObject, IsOptional } from "class-validator"
+import { Type } from "class-transformer"
+import { IsTimezone } from "../../../../utils/validators/is-timezone"
+import { SLOT_INTERVALS } from "../../../../utils/availability"
+import { IsString, IsObject, IsOptional, IsIn, IsInt, Min, IsMilitaryTime, ValidateIf } from "class-validator"
 import CalendarService from "../../../../services/calendar"
 import { EntityManager } from "typeorm"
 import { defaultAdminCalendarFields, defaultAdminCalendarRelations } from "."
@@ -26,15 +29,59 @@ export default async (req, res) => {
     res.json({ calendar })
 }
 
+// null reset a slot setting or booking rule to the one of the location, the buffers can't be null
 export class AdminPostCalendarsCalendarReq {
     @IsString()
-    @IsOptional()
+    @ValidateIf((object, value) => value !== undefined)
     name: string
   
     @IsString()
     @IsOptional()
     color: string
 
+    @IsTimezone()
+    @ValidateIf((object, value) => value !== null && value !== undefined)
+    timezone?: string | null
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @ValidateIf((object, value) => value !== null && value !== undefined)
+    slot_interval_min?: number | null
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @ValidateIf((object, value) => value !== null && value !== undefined)
+    slot_alignment_min?: number | null
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @ValidateIf((object, value) => value !== undefined)
+    buffer_before_min: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @ValidateIf((object, value) => value !== undefined)
+    buffer_after_min: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @ValidateIf((object, value) => value !== null && value !== undefined)
+    min_notice_min?: number | null
+
+    @IsInt()
+    @Min(1)
+    @Type(() => Number)
+    @ValidateIf((object, value) => value !== null && value !== undefined)
+    max_horizon_days?: number | null
+
+    @IsString()
+    @IsMilitaryTime()
+    @ValidateIf((object, value) => value !== null && value !== undefined)
+    same_day_cutoff?: string | null
+
     @IsObject()
     @IsOptional()
     metadata?: Record<string, unknown>
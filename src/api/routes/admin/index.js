@@ -13,6 +13,7 @@ import appointments from "./appointments";
 import divisions from "./divisions";
 import settings from "./settings"
 import defaultWorkingHours from "./default-working-hour"
+import appointmentPolicies from "./appointment-policies"
 
 const route = Router()
 
@@ -40,6 +41,7 @@ export default (app, rootDirectory, config) => {
     divisions(route);
     settings(route);
     defaultWorkingHours(route);
+    appointmentPolicies(route);
 
     return app;
 }
\ No newline at end of file
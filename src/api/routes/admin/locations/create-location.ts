@@ -1,7 +1,10 @@
-import { IsArray, IsNotEmpty, IsString, IsObject, IsOptional } from "class-validator"
+import { IsArray, IsNotEmpty, IsString, IsObject, IsOptional, IsIn, IsInt, Min, IsMilitaryTime } from "class-validator"
 
 import LocationService from "../../../../services/location";
 import { validator } from "../../../../utils/validator"
+import { Type } from "class-transformer"
+import { IsTimezone } from "../../../../utils/validators/is-timezone"
+import { SLOT_INTERVALS } from "../../../../utils/availability"
 import { EntityManager } from "typeorm"
 
 export default async (req, res) => {
@@ -60,6 +63,37 @@ export class AdminPostLocationsReq {
     @IsOptional()
     latitude: string
 
+    @IsTimezone()
+    @IsOptional()
+    timezone?: string
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @IsOptional()
+    slot_interval_min?: number
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @IsOptional()
+    slot_alignment_min?: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @IsOptional()
+    min_notice_min?: number
+
+    @IsInt()
+    @Min(1)
+    @Type(() => Number)
+    @IsOptional()
+    max_horizon_days?: number
+
+    @IsString()
+    @IsMilitaryTime()
+    @IsOptional()
+    same_day_cutoff?: string
+
     @IsObject()
     @IsOptional()
     metadata?: Record<string, unknown>
@@ -0,0 +1,28 @@
+import { EntityManager } from "typeorm";
+import { MedusaError } from "medusa-core-utils"
+import LocationHolidayService from "../../../../../services/location-holiday";
+
+export default async (req, res) => {
+    const { id, idHoliday } = req.params
+
+    const locationHolidayService: LocationHolidayService = req.scope.resolve("locationHolidayService")
+
+    const current = await locationHolidayService.retrieve(idHoliday, {})
+    if (current.location_id !== id) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_FOUND,
+            `LocationHoliday with ${idHoliday} was not found`
+        )
+    }
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        return await locationHolidayService.withTransaction(transactionManager).delete(idHoliday)
+    })
+
+    res.json({
+        id: idHoliday,
+        object: "location-holiday",
+        deleted: true,
+    })
+}
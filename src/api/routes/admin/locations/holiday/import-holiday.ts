@@ -0,0 +1,61 @@
+import { IsArray, IsEnum, IsInt, IsOptional, IsString, Matches, Max, Min } from "class-validator"
+import { Transform } from "class-transformer"
+import { EntityManager } from "typeorm"
+import LocationService from "../../../../../services/location"
+import LocationHolidayService from "../../../../../services/location-holiday"
+import { HolidaySource } from "../../../../../models/location-holiday"
+import { validator } from "../../../../../utils/validator"
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    // a raw .ics upload, the years come from the query
+    const body = typeof req.body === "string"
+        ? { source: HolidaySource.ICAL, ics: req.body, years: req.query.years, ics_key: req.query.ics_key }
+        : req.body
+
+    const validated = await validator(AdminPostLocationHolidaysImportReq, body)
+
+    const locationService: LocationService = req.scope.resolve("locationService")
+    const locationHolidayService: LocationHolidayService = req.scope.resolve("locationHolidayService")
+
+    const location = await locationService.retrieve(id, {})
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await locationHolidayService
+        .withTransaction(transactionManager)
+        .import(location, validated)
+    })
+
+    res.status(200).json({ result })
+}
+
+export class AdminPostLocationHolidaysImportReq {
+    @IsEnum(HolidaySource)
+    source: HolidaySource
+
+    @IsArray()
+    @IsInt({ each: true })
+    @Min(1970, { each: true })
+    @Max(2100, { each: true })
+    @IsOptional()
+    @Transform(({ value }) => {
+        if (typeof value === "string") return value.split(",").map((y) => +y)
+        if (Array.isArray(value)) return value.map((y) => +y)
+        return value
+    })
+    years?: number[]
+
+    // content of the .ics file, required when source is ical
+    @IsString()
+    @IsOptional()
+    ics?: string
+
+    // name of the imported file, like "public" or "school", the holidays of the other files are kept
+    // no colon, it separates the key from the uid of the event
+    @IsString()
+    @Matches(/^[\w-]+$/)
+    @IsOptional()
+    ics_key?: string
+}
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import * as bodyParser from "body-parser";
+import { LocationHoliday } from "../../../../../models/location-holiday";
+import middlewares from "../../../../middleware";
+import "reflect-metadata"
+
+const route = Router()
+
+export default (app) => {
+    app.use("/", route);
+
+    route.get("/:id/holidays/", middlewares.wrap(require("./list-holiday").default));
+
+    // the .ics file can be sent as the raw body with content type text/calendar
+    route.post(
+        "/:id/holidays/import",
+        bodyParser.text({ type: "text/calendar", limit: "1mb" }),
+        middlewares.wrap(require("./import-holiday").default)
+    );
+
+    route.put("/:id/holidays/:idHoliday", middlewares.wrap(require("./update-holiday").default));
+
+    route.delete("/:id/holidays/:idHoliday", middlewares.wrap(require("./delete-holiday").default));
+
+    return app;
+}
+
+export const defaultAdminLocationHolidayFields: (keyof LocationHoliday)[] = [
+    "id",
+    "location_id",
+    "date",
+    "name",
+    "source",
+    "uid",
+    "is_enabled",
+    "metadata",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+]
+
+export * from "./list-holiday";
+export * from "./import-holiday";
+export * from "./update-holiday";
+export * from "./delete-holiday";
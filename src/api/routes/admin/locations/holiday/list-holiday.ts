@@ -0,0 +1,51 @@
+import LocationHolidayService from "../../../../../services/location-holiday"
+import { validator } from "../../../../../utils/validator"
+import { IsBoolean, IsEnum, IsOptional, Matches } from "class-validator"
+import { Transform } from "class-transformer"
+import { Between, LessThanOrEqual, MoreThanOrEqual } from "typeorm"
+import { HolidaySource } from "../../../../../models/location-holiday"
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const validated = await validator(AdminGetLocationHolidaysParams, req.query)
+
+    const locationHolidayService: LocationHolidayService = req.scope.resolve("locationHolidayService")
+
+    const selector: Record<string, unknown> = { location_id: id }
+
+    if (validated.from && validated.to) selector.date = Between(validated.from, validated.to)
+    else if (validated.from) selector.date = MoreThanOrEqual(validated.from)
+    else if (validated.to) selector.date = LessThanOrEqual(validated.to)
+
+    if (validated.source) selector.source = validated.source
+    if (typeof validated.is_enabled !== "undefined") selector.is_enabled = validated.is_enabled
+
+    const holidays = await locationHolidayService.list(selector, {
+        order: { date: "ASC" },
+    })
+
+    res.status(200).json({
+        holidays,
+        count: holidays.length,
+    })
+}
+
+export class AdminGetLocationHolidaysParams {
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    @IsOptional()
+    from?: string
+
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    @IsOptional()
+    to?: string
+
+    @IsEnum(HolidaySource)
+    @IsOptional()
+    source?: HolidaySource
+
+    @IsBoolean()
+    @IsOptional()
+    @Transform(({ value }) => value === "true" || value === true)
+    is_enabled?: boolean
+}
@@ -0,0 +1,50 @@
+import { IsBoolean, IsObject, IsOptional, IsString } from "class-validator"
+import { EntityManager } from "typeorm"
+import { MedusaError } from "medusa-core-utils"
+import LocationHolidayService from "../../../../../services/location-holiday"
+import { validator } from "../../../../../utils/validator"
+import { defaultAdminLocationHolidayFields } from "."
+
+export default async (req, res) => {
+    const { id, idHoliday } = req.params
+
+    const validated = await validator(AdminPostLocationHolidaysHolidayReq, req.body)
+
+    const locationHolidayService: LocationHolidayService = req.scope.resolve("locationHolidayService")
+
+    const current = await locationHolidayService.retrieve(idHoliday, {})
+    if (current.location_id !== id) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_FOUND,
+            `LocationHoliday with ${idHoliday} was not found`
+        )
+    }
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await locationHolidayService
+        .withTransaction(transactionManager)
+        .update(idHoliday, validated)
+    })
+
+    const holiday = await locationHolidayService.retrieve(idHoliday, {
+        select: defaultAdminLocationHolidayFields,
+    })
+
+    res.json({ holiday })
+}
+
+export class AdminPostLocationHolidaysHolidayReq {
+    @IsString()
+    @IsOptional()
+    name?: string
+
+    // false to opt out of the holiday, the location stay open that day
+    @IsBoolean()
+    @IsOptional()
+    is_enabled?: boolean
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
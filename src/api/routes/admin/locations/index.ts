@@ -3,11 +3,17 @@ import { Location } from "../../../../models/location";
 import middlewares from "../../../middleware";
 import "reflect-metadata"
 
+import override from "./override";
+import holiday from "./holiday";
+
 const route = Router()
 
 export default (app) => {
     app.use("/locations", route);
 
+    override(route);
+    holiday(route);
+
     route.post("/", middlewares.wrap(require("./create-location").default));
 
     route.get("/", middlewares.wrap(require("./list-location").default));
@@ -16,6 +22,8 @@ export default (app) => {
 
     route.put("/:id", middlewares.wrap(require("./update-location").default));
 
+    route.put("/:id/default-working-hours", middlewares.wrap(require("./update-location-dwh").default));
+
     route.delete("/:id", middlewares.wrap(require("./delete-location").default));
 
     return app;
@@ -44,6 +52,12 @@ export const defaultAdminLocationFields: (keyof Location)[] = [
     "province",
     "latitude",
     "longitude",
+    "timezone",
+    "slot_interval_min",
+    "slot_alignment_min",
+    "min_notice_min",
+    "max_horizon_days",
+    "same_day_cutoff",
     "created_at",
     "updated_at",
     "deleted_at",
@@ -53,5 +67,6 @@ export const defaultAdminLocationFields: (keyof Location)[] = [
 export * from "./list-location";
 export * from "./create-location";
 export * from "./update-location";
+export * from "./update-location-dwh";
 export * from "./delete-location";
 export * from "./get-location";
\ No newline at end of file
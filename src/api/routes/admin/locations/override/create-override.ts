@@ -0,0 +1,52 @@
+import { IsString, IsObject, IsOptional, IsBoolean, IsArray, ValidateNested, Matches } from "class-validator"
+import OpeningHourOverrideService from "../../../../../services/opening-hour-override";
+import LocationService from "../../../../../services/location";
+import { validator } from "../../../../../utils/validator"
+import { EntityManager } from "typeorm"
+import { Type } from "class-transformer"
+import { OpeningHourReq } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+    req.body.location_id = id; // inject location_id into req.body 
+
+    const validated = await validator(AdminPostOpeningHourOverridesReq, req.body)
+
+    const locationService: LocationService = req.scope.resolve("locationService")
+    await locationService.retrieve(id, {}); // make sure parent / location_id is exists
+
+    const openingHourOverrideService: OpeningHourOverrideService = req.scope.resolve("openingHourOverrideService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const override = await manager.transaction(async (transactionManager) => {
+        return await openingHourOverrideService.withTransaction(transactionManager).create(validated);
+    })
+
+    res.status(200).json({ override })
+}
+
+export class AdminPostOpeningHourOverridesReq {
+    @IsString()
+    location_id: string
+
+    // the day in the time zone of the location
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    date: string
+
+    @IsString()
+    @IsOptional()
+    title?: string
+
+    @IsBoolean()
+    is_working_day: boolean
+
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => OpeningHourReq)
+    @IsOptional()
+    hours?: OpeningHourReq[]
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
@@ -0,0 +1,21 @@
+import { EntityManager } from "typeorm";
+import OpeningHourOverrideService from "../../../../../services/opening-hour-override";
+import LocationService from "../../../../../services/location";
+
+export default async (req, res) => {
+    const { id, idOverride } = req.params
+
+    const openingHourOverrideService: OpeningHourOverrideService = req.scope.resolve("openingHourOverrideService")
+    const locationService: LocationService = req.scope.resolve("locationService")
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await locationService.retrieve(id, {}); // make sure parent / location_id is exists
+        return await openingHourOverrideService.withTransaction(transactionManager).delete(idOverride)
+    })
+
+    res.json({
+        id: idOverride,
+        object: "opening-hour-override",
+        deleted: true,
+    })
+}
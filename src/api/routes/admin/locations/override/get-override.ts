@@ -0,0 +1,11 @@
+import { defaultAdminOpeningHourOverrideRelations } from "."
+import OpeningHourOverrideService from "../../../../../services/opening-hour-override"
+
+export default async (req, res) => {
+    const { idOverride } = req.params
+
+    const openingHourOverrideService: OpeningHourOverrideService = req.scope.resolve("openingHourOverrideService")
+    const override = await openingHourOverrideService.retrieve(idOverride, { relations: defaultAdminOpeningHourOverrideRelations })
+
+    res.status(200).json({ override })
+}
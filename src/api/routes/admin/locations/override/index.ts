@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { OpeningHourOverride } from "../../../../../models/opening-hour-override";
+import middlewares from "../../../../middleware";
+import { IsMilitaryTime, IsString } from "class-validator"
+import "reflect-metadata"
+
+const route = Router()
+
+export default (app) => {
+    app.use("/", route);
+
+    route.post("/:id/overrides/", middlewares.wrap(require("./create-override").default));
+
+    route.get("/:id/overrides/", middlewares.wrap(require("./list-override").default));
+
+    route.get("/:id/overrides/:idOverride", middlewares.wrap(require("./get-override").default));
+
+    route.put("/:id/overrides/:idOverride", middlewares.wrap(require("./update-override").default));
+
+    route.delete("/:id/overrides/:idOverride", middlewares.wrap(require("./delete-override").default));
+
+    return app;
+}
+
+export const defaultAdminOpeningHourOverrideRelations = []
+
+export const defaultAdminOpeningHourOverrideFields: (keyof OpeningHourOverride)[] = [
+    "id",
+    "location_id",
+    "date",
+    "title",
+    "is_working_day",
+    "hours",
+    "metadata",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+]
+
+export class OpeningHourReq {
+    @IsString()
+    @IsMilitaryTime()
+    from: string
+
+    @IsString()
+    @IsMilitaryTime()
+    to: string
+}
+
+export * from "./list-override";
+export * from "./create-override";
+export * from "./update-override";
+export * from "./delete-override";
+export * from "./get-override";
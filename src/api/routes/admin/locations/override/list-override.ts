@@ -0,0 +1,37 @@
+import OpeningHourOverrideService from "../../../../../services/opening-hour-override"
+import { validator } from "../../../../../utils/validator"
+import { IsOptional, Matches } from "class-validator"
+import { Between, LessThanOrEqual, MoreThanOrEqual } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const validated = await validator(AdminGetOpeningHourOverridesParams, req.query)
+
+    const openingHourOverrideService: OpeningHourOverrideService = req.scope.resolve("openingHourOverrideService")
+
+    const selector: Record<string, unknown> = { location_id: id }
+
+    if (validated.from && validated.to) selector.date = Between(validated.from, validated.to)
+    else if (validated.from) selector.date = MoreThanOrEqual(validated.from)
+    else if (validated.to) selector.date = LessThanOrEqual(validated.to)
+
+    const overrides = await openingHourOverrideService.list(selector, {
+        order: { date: "ASC" },
+    })
+
+    res.status(200).json({
+        overrides,
+        count: overrides.length,
+    })
+}
+
+export class AdminGetOpeningHourOverridesParams {
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    @IsOptional()
+    from?: string
+
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    @IsOptional()
+    to?: string
+}
@@ -0,0 +1,56 @@
+import { validator } from "../../../../../utils/validator"
+import { IsString, IsObject, IsOptional, IsBoolean, IsArray, ValidateNested, Matches } from "class-validator"
+import OpeningHourOverrideService from "../../../../../services/opening-hour-override"
+import LocationService from "../../../../../services/location"
+import { EntityManager } from "typeorm"
+import { defaultAdminOpeningHourOverrideFields, defaultAdminOpeningHourOverrideRelations, OpeningHourReq } from "."
+import { Type } from "class-transformer"
+
+export default async (req, res) => {
+    const { id, idOverride } = req.params
+
+    const locationService: LocationService = req.scope.resolve("locationService")
+    await locationService.retrieve(id, {}); // make sure parent / location_id is exists
+
+    const validated = await validator(AdminPostOpeningHourOverridesOverrideReq, req.body)
+
+    const openingHourOverrideService: OpeningHourOverrideService = req.scope.resolve("openingHourOverrideService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await openingHourOverrideService
+        .withTransaction(transactionManager)
+        .update(idOverride, validated)
+    })
+
+    const override = await openingHourOverrideService.retrieve(idOverride, {
+        select: defaultAdminOpeningHourOverrideFields,
+        relations: defaultAdminOpeningHourOverrideRelations,
+    })
+
+    res.json({ override })
+}
+
+export class AdminPostOpeningHourOverridesOverrideReq {
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    @IsOptional()
+    date?: string
+
+    @IsString()
+    @IsOptional()
+    title?: string
+
+    @IsBoolean()
+    @IsOptional()
+    is_working_day?: boolean
+
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => OpeningHourReq)
+    @IsOptional()
+    hours?: OpeningHourReq[]
+
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>
+}
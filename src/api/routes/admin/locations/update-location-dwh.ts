@@ -0,0 +1,55 @@
+import { validator } from "../../../../utils/validator"
+import { Type } from "class-transformer"
+import { IsArray, IsString, IsInt, Min, Max, IsMilitaryTime, ValidateNested } from "class-validator"
+import LocationService from "../../../../services/location"
+import DefaultWorkingHourService from "../../../../services/default-working-hour"
+import { EntityManager } from "typeorm"
+import { defaultAdminLocationFields, defaultAdminLocationRelations } from "."
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const validated = await validator(AdminPutLocationsLocationDWHReq, req.body)
+
+    const locationService: LocationService = req.scope.resolve("locationService")
+    const dwh_: DefaultWorkingHourService = req.scope.resolve("defaultWorkingHourService")
+
+    await locationService.retrieve(id, {}); // make sure the location is exists
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        await dwh_
+        .withTransaction(transactionManager)
+        .replaceDWHLocation(id, validated.default_working_hours)
+    })
+
+    const location = await locationService.retrieve(id, {
+        select: defaultAdminLocationFields,
+        relations: defaultAdminLocationRelations,
+    })
+
+    res.json({ location })
+}
+
+export class DefaultWorkingHourIntervalReq {
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    day: number
+
+    @IsString()
+    @IsMilitaryTime()
+    from: string
+
+    @IsString()
+    @IsMilitaryTime()
+    to: string
+}
+
+export class AdminPutLocationsLocationDWHReq {
+    // the whole week, a weekday without interval is closed
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => DefaultWorkingHourIntervalReq)
+    default_working_hours: DefaultWorkingHourIntervalReq[]
+}
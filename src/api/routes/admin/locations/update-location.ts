@@ -1,5 +1,8 @@
 import { validator } from "../../../../utils/validator"
-import { IsArray, IsString, IsObject, IsOptional } from "class-validator"
+import { Type } from "class-transformer"
+import { IsTimezone } from "../../../../utils/validators/is-timezone"
+import { SLOT_INTERVALS } from "../../../../utils/availability"
+import { IsArray, IsString, IsObject, IsOptional, IsIn, IsInt, Min, IsMilitaryTime } from "class-validator"
 import LocationService from "../../../../services/location"
 import { EntityManager } from "typeorm"
 import { defaultAdminLocationFields, defaultAdminLocationRelations } from "."
@@ -79,6 +82,37 @@ export class AdminPostLocationsLocationReq {
     @IsOptional()
     latitude: string
 
+    @IsTimezone()
+    @IsOptional()
+    timezone: string
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @IsOptional()
+    slot_interval_min: number
+
+    @IsIn(SLOT_INTERVALS)
+    @Type(() => Number)
+    @IsOptional()
+    slot_alignment_min: number
+
+    @IsInt()
+    @Min(0)
+    @Type(() => Number)
+    @IsOptional()
+    min_notice_min: number
+
+    @IsInt()
+    @Min(1)
+    @Type(() => Number)
+    @IsOptional()
+    max_horizon_days: number
+
+    @IsString()
+    @IsMilitaryTime()
+    @IsOptional()
+    same_day_cutoff: string
+
     @IsObject()
     @IsOptional()
     metadata?: Record<string, unknown>
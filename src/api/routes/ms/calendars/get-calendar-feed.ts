@@ -0,0 +1,22 @@
+import { IsString } from "class-validator"
+import CalendarFeedService from "../../../../services/calendar-feed"
+import { validator } from "../../../../utils/validator"
+
+export default async (req, res) => {
+    const { id } = req.params
+    const validated = await validator(GetCalendarFeedParams, req.query)
+
+    const calendarFeedService: CalendarFeedService = req.scope.resolve("calendarFeedService")
+
+    const feed = await calendarFeedService.retrieveByToken(id, validated.token)
+    const ics = await calendarFeedService.renderFeed(feed)
+
+    res.set("Content-Type", "text/calendar; charset=utf-8")
+    res.set("Cache-Control", "private, max-age=300")
+    res.status(200).send(ics)
+}
+
+export class GetCalendarFeedParams {
+    @IsString()
+    token: string
+}
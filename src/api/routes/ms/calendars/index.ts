@@ -0,0 +1,15 @@
+import { Router } from "express";
+import middlewares from "../../../middleware";
+import "reflect-metadata"
+
+const route = Router()
+
+export default (app) => {
+    app.use("/calendars", route);
+
+    route.get("/:id/feed.ics", middlewares.wrap(require("./get-calendar-feed").default));
+
+    return app;
+}
+
+export * from "./get-calendar-feed";
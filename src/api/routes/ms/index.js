@@ -0,0 +1,13 @@
+import { Router } from "express"
+import calendarRoutes from "./calendars"
+
+const route = Router()
+
+// public endpoints, opened by a token instead of a session, like the calendar feeds
+export default (app, rootDirectory, config) => {
+  app.use("/ms", route)
+
+  calendarRoutes(route)
+
+  return app
+}
@@ -0,0 +1,20 @@
+import AppointmentService from "../../../../services/appointment"
+import { MedusaError } from "medusa-core-utils"
+
+// the appointment as an .ics file, to add it to the calendar of the customer
+export default async (req, res) => {
+    const { id } = req.params
+    const cus_id: string | undefined = req.user?.customer_id
+
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+    const appointment = await appointmentService.retrieve(id, { relations: ["order"] })
+
+    // check appointment owner
+    if (appointment.order?.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `Appointment was ${id} not found`)
+
+    const ics = await appointmentService.renderICalendar(id)
+
+    res.set("Content-Type", "text/calendar; charset=utf-8")
+    res.set("Content-Disposition", `attachment; filename="appointment-${appointment.display_id}.ics"`)
+    res.status(200).send(ics)
+}
@@ -21,6 +21,8 @@ export default (app) => {
   route.use(requireCustomerAuthentication());
   route.get("/:id", middlewares.wrap(require("./get-appointment").default));
 
+  route.get("/:id/ics", middlewares.wrap(require("./get-appointment-ics").default));
+
 
   return app;
 };
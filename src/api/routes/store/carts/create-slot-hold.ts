@@ -0,0 +1,38 @@
+import { IsString, IsDateString } from "class-validator"
+import SlotHoldService from "../../../../services/slot-hold";
+import { validator } from "../../../../utils/validator"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const validated = await validator(StorePostCartSlotHoldReq, req.body)
+
+    const slotHoldService: SlotHoldService = req.scope.resolve("slotHoldService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const hold = await manager.transaction(async (transactionManager) => {
+        return await slotHoldService.withTransaction(transactionManager).create(id, validated);
+    })
+
+    res.status(200).json({
+        hold: {
+            id: hold.id,
+            calendar_id: hold.calendar_id,
+            from: hold.from,
+            to: hold.to,
+            expires_at: hold.expires_at,
+        }
+    })
+}
+
+export class StorePostCartSlotHoldReq {
+    @IsString()
+    location_id: string
+
+    @IsString()
+    calendar_id: string
+
+    @IsDateString()
+    slot_time: string
+}
@@ -0,0 +1,19 @@
+import SlotHoldService from "../../../../services/slot-hold";
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+
+    const slotHoldService: SlotHoldService = req.scope.resolve("slotHoldService")
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    await manager.transaction(async (transactionManager) => {
+        return await slotHoldService.withTransaction(transactionManager).release(id);
+    })
+
+    res.status(200).json({
+        cart_id: id,
+        object: "slot-hold",
+        deleted: true,
+    })
+}
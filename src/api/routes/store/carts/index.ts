@@ -0,0 +1,15 @@
+import { Router } from "express";
+import middlewares from "../../../middleware";
+
+const route = Router();
+
+export default (app) => {
+  app.use("/carts", route);
+
+  route.post("/:id/slot-hold", middlewares.wrap(require("./create-slot-hold").default));
+  route.delete("/:id/slot-hold", middlewares.wrap(require("./delete-slot-hold").default));
+
+  return app;
+};
+
+export * from "./create-slot-hold";
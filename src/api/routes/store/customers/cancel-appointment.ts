@@ -0,0 +1,34 @@
+import AppointmentService from "../../../../services/appointment"
+import { IsString, IsOptional } from "class-validator"
+import { validator } from "../../../../utils/validator"
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+    const cus_id: string | undefined = req.user?.customer_id
+    const validated = await validator(StorePostCustomersAppointmentCancelReq, req.body)
+
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+    const appointment = await appointmentService.retrieve(id, { relations: ["order"] })
+
+    // check appointment owner
+    if (appointment.order?.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `Appointment was ${id} not found`)
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await appointmentService.withTransaction(transactionManager).cancel(id, {
+            canceled_by: cus_id,
+            reason: validated.reason,
+            apply_policy: true,
+        })
+    })
+
+    res.status(200).json({ appointment: result })
+}
+
+export class StorePostCustomersAppointmentCancelReq {
+    @IsString()
+    @IsOptional()
+    reason?: string
+}
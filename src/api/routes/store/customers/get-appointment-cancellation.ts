@@ -0,0 +1,20 @@
+import AppointmentService from "../../../../services/appointment"
+import AppointmentPolicyService from "../../../../services/appointment-policy"
+import { MedusaError } from "medusa-core-utils"
+
+// preview of the cancellation fee, before the customer cancel
+export default async (req, res) => {
+    const { id } = req.params
+    const cus_id: string | undefined = req.user?.customer_id
+
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+    const appointmentPolicyService: AppointmentPolicyService = req.scope.resolve("appointmentPolicyService")
+    const appointment = await appointmentService.retrieve(id, { relations: ["order"] })
+
+    // check appointment owner
+    if (appointment.order?.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `Appointment was ${id} not found`)
+
+    const cancellation = await appointmentPolicyService.checkCancellation(appointment)
+
+    res.status(200).json({ cancellation })
+}
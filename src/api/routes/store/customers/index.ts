@@ -32,9 +32,17 @@ export default (app) => {
   
   route.post("/make-appointment", middlewares.wrap(require("./make-appointment").default))
 
+  route.get("/appointments/:id/cancellation", middlewares.wrap(require("./get-appointment-cancellation").default))
+
+  route.post("/appointments/:id/cancel", middlewares.wrap(require("./cancel-appointment").default))
+
+  route.post("/appointments/:id/reschedule", middlewares.wrap(require("./reschedule-appointment").default))
+
   return app
 }
 
 export * from "./get-orders-appointments"
 export * from "./list-orders-with-appointments"
-export * from "./make-appointment"
\ No newline at end of file
+export * from "./make-appointment"
+export * from "./cancel-appointment"
+export * from "./reschedule-appointment"
\ No newline at end of file
@@ -1,26 +1,47 @@
 import AppointmentService from "../../../../services/appointment"
-import { IsString, IsDateString } from "class-validator"
+import { IsString, IsDateString, IsArray, IsOptional, IsInt, Min, ValidateNested, ArrayNotEmpty } from "class-validator"
+import { Type } from "class-transformer"
 import { validator } from "@medusajs/medusa/dist/utils/validator"
 import { MedusaError } from "medusa-core-utils"
 import { OrderService } from "@medusajs/medusa"
+import { EntityManager } from "typeorm"
 
 export default async (req, res) => {
     const cus_id: string | undefined = req.user?.customer_id
-    const validated = await validator(PostMakeAppointmentReq, req.body)
     const orderService: OrderService = req.scope.resolve("orderService")
     const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
 
+    // several appointments, each with its items and slot
+    if (Array.isArray(req.body?.appointments)) {
+        const validated = await validator(PostMakeAppointmentsReq, req.body)
+        const order = await orderService.retrieve(validated.order_id)
+
+        // check order owner
+        if (order.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "Order not valid!", "400")
+
+        const manager: EntityManager = req.scope.resolve("manager")
+        const appointments = await manager.transaction(async (transactionManager) => {
+            return await appointmentService
+                .withTransaction(transactionManager)
+                .makeAppointments(validated.order_id, validated.appointments)
+        })
+
+        return res.status(200).json({ appointments })
+    }
+
+    const validated = await validator(PostMakeAppointmentReq, req.body)
+
     const order = await orderService.retrieve(validated.order_id)
 
     // check order owner
     if (order.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "Order not valid!", "400")
-    
+
     const appointment = await appointmentService.makeAppointment(validated)
-    
+
     res.status(200).json({ appointment: appointment })
 }
 
-export class PostMakeAppointmentReq {    
+export class PostMakeAppointmentReq {
     @IsDateString()
     slot_time: Date
 
@@ -32,4 +53,44 @@ export class PostMakeAppointmentReq {
 
     @IsString()
     calendar_id: string
-}
\ No newline at end of file
+}
+
+export class MakeAppointmentItemReq {
+    @IsString()
+    item_id: string
+
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    quantity?: number
+}
+
+export class MakeAppointmentBookingReq {
+    // start when the previous appointment ends when not set
+    @IsDateString()
+    @IsOptional()
+    slot_time?: string
+
+    @IsString()
+    location_id: string
+
+    @IsString()
+    calendar_id: string
+
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => MakeAppointmentItemReq)
+    @IsOptional()
+    items?: MakeAppointmentItemReq[]
+}
+
+export class PostMakeAppointmentsReq {
+    @IsString()
+    order_id: string
+
+    @IsArray()
+    @ArrayNotEmpty()
+    @ValidateNested({ each: true })
+    @Type(() => MakeAppointmentBookingReq)
+    appointments: MakeAppointmentBookingReq[]
+}
@@ -0,0 +1,39 @@
+import AppointmentService from "../../../../services/appointment"
+import { IsString, IsOptional, IsDateString } from "class-validator"
+import { validator } from "../../../../utils/validator"
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+
+export default async (req, res) => {
+    const { id } = req.params
+    const cus_id: string | undefined = req.user?.customer_id
+    const validated = await validator(StorePostCustomersAppointmentRescheduleReq, req.body)
+
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+    const appointment = await appointmentService.retrieve(id, { relations: ["order"] })
+
+    // check appointment owner
+    if (appointment.order?.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_FOUND, `Appointment was ${id} not found`)
+
+    const manager: EntityManager = req.scope.resolve("manager")
+    const result = await manager.transaction(async (transactionManager) => {
+        return await appointmentService.withTransaction(transactionManager).reschedule(id, {
+            slot_time: validated.slot_time,
+            calendar_id: validated.calendar_id,
+            rescheduled_by: cus_id,
+            apply_policy: true,
+        })
+    })
+
+    res.status(200).json({ appointment: result })
+}
+
+export class StorePostCustomersAppointmentRescheduleReq {
+    @IsDateString()
+    slot_time: string
+
+    // another calendar of the same location
+    @IsString()
+    @IsOptional()
+    calendar_id?: string
+}
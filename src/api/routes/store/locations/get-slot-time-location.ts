@@ -1,5 +1,5 @@
 import LocationService from "../../../../services/location"
-import { IsString, IsOptional} from "class-validator"
+import { IsString, IsOptional, IsInt, Min } from "class-validator"
 import { Transform, Type } from "class-transformer"
 import { validator } from "@medusajs/medusa/dist/utils/validator"
 
@@ -9,7 +9,10 @@ export default async (req, res) => {
     const validated = await validator(GetSlotTimeStoreParams, req.query)
 
     const locationService: LocationService = req.scope.resolve("locationService")
-    const slotTimes = await locationService.getSlotTime(id, validated.from, validated.to, { calendar_id: validated.calendar_id })
+    const slotTimes = await locationService.getSlotTime(id, validated.from, validated.to, {
+        calendar_id: validated.calendar_id,
+        service_time: { duration_min: validated.duration },
+    })
     res.status(200).json({ slotTimes })
 }
 
@@ -31,4 +34,11 @@ export class GetSlotTimeStoreParams {
     @IsString()
     @IsOptional()
     calendar_id?: string
+
+    // duration of the service in minutes, only start times where the whole duration fits are returned
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    @Type(() => Number)
+    duration?: number
 }
\ No newline at end of file
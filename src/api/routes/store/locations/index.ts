@@ -17,6 +17,8 @@ export default (app) => {
 
   route.get("/:id/get-slot-time", middlewares.wrap(require("./get-slot-time-location").default))
 
+  route.get("/:id/search-slot-time", middlewares.wrap(require("./search-slot-time-location").default))
+
   return app
 }
 
@@ -42,6 +44,12 @@ export const defaultStoreLocationFields: (keyof Location)[] = [
   "province",
   "latitude",
   "longitude",
+  "timezone",
+  "slot_interval_min",
+  "slot_alignment_min",
+  "min_notice_min",
+  "max_horizon_days",
+  "same_day_cutoff",
   "created_at",
   "updated_at",
   "deleted_at",
@@ -49,5 +57,6 @@ export const defaultStoreLocationFields: (keyof Location)[] = [
 ]
 
 export * from "./get-slot-time-location"
+export * from "./search-slot-time-location"
 export * from "./list-location"
 export * from "./get-location"
\ No newline at end of file
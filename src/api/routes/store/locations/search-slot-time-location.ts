@@ -0,0 +1,71 @@
+import LocationService from "../../../../services/location"
+import AppointmentService from "../../../../services/appointment"
+import { IsString, IsOptional, IsArray, ValidateIf } from "class-validator"
+import { Transform, Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+import { MedusaError } from "medusa-core-utils"
+import { CartService } from "@medusajs/medusa"
+
+export default async (req, res) => {
+    const { id } = req.params
+    const cus_id: string | undefined = req.user?.customer_id
+
+    const validated = await validator(SearchSlotTimeStoreParams, req.query)
+
+    const locationService: LocationService = req.scope.resolve("locationService")
+    const appointmentService: AppointmentService = req.scope.resolve("appointmentService")
+
+    if (validated.cart_id) {
+        const cartService: CartService = req.scope.resolve("cartService")
+        const cart = await cartService.retrieve(validated.cart_id, { select: ["id", "customer_id"] })
+
+        // check cart owner
+        if (cart.customer_id != cus_id) throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "Cart not valid!", "400")
+    }
+
+    // duration and buffer are calculated the same way as when the appointment is made
+    const service_time = validated.cart_id
+        ? await appointmentService.getServiceTimeByCartId(validated.cart_id)
+        : await appointmentService.getServiceTimeByVariantIds(validated.variant_ids)
+
+    if (service_time.duration_min <= 0) throw new MedusaError(MedusaError.Types.INVALID_DATA, "Items don't have duration_min, can't search slot time.")
+
+    const slotTimes = await locationService.getSlotTime(id, validated.from, validated.to, {
+        calendar_id: validated.calendar_id,
+        service_time: service_time,
+    })
+
+    res.status(200).json({ slotTimes, duration_min: service_time.duration_min })
+}
+
+export class SearchSlotTimeStoreParams {
+    @IsString()
+    @ValidateIf((o) => !o.variant_ids)
+    cart_id?: string
+
+    @IsArray()
+    @IsString({ each: true })
+    @ValidateIf((o) => !o.cart_id)
+    @Transform(({ value }) => {
+        return typeof value === "string" ? value.split(",") : value
+    })
+    variant_ids?: string[]
+
+    @IsOptional()
+    @Transform(({ value }) => {
+        return value === "null" ? null : value
+    })
+    @Type(() => Date)
+    from?: Date | null
+
+    @IsOptional()
+    @Transform(({ value }) => {
+        return value === "null" ? null : value
+    })
+    @Type(() => Date)
+    to?: Date | null
+
+    @IsString()
+    @IsOptional()
+    calendar_id?: string
+}
@@ -0,0 +1,27 @@
+import AppointmentReminderService from "../services/appointment-reminder";
+import ServiceSettingService from "../services/service-setting";
+
+const appointmentReminderJob = async (container, options) => {
+    const eventBus_ = container.resolve("eventBusService");
+    const notification_ = container.resolve("notificationService");
+    const setting_: ServiceSettingService = container.resolve("serviceSettingService");
+    const reminder_: AppointmentReminderService = container.resolve("appointmentReminderService");
+
+    // the providers of the settings get the reminder events, a change of the setting need a restart
+    const subscriptions = [
+        [AppointmentReminderService.Events.EMAIL, AppointmentReminderService.Settings.EMAIL_PROVIDER],
+        [AppointmentReminderService.Events.SMS, AppointmentReminderService.Settings.SMS_PROVIDER],
+    ]
+
+    for (const [event, option] of subscriptions) {
+        const providerId = await setting_.getValue(option, null)
+        if (providerId) notification_.subscribe(event, providerId)
+    }
+
+    // do cronjob every 5 minutes
+    eventBus_.createCronJob("appointment-reminder", {}, "*/5 * * * *", async () => {
+        await reminder_.sendDue()
+    })
+}
+
+export default appointmentReminderJob;
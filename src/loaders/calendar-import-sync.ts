@@ -0,0 +1,13 @@
+import CalendarImportService from "../services/calendar-import";
+
+const calendarImportSyncJob = async (container, options) => {
+    const eventBus_ = container.resolve("eventBusService");
+    const calendarImport_: CalendarImportService = container.resolve("calendarImportService");
+
+    // do cronjob every 15 minutes, the busy events of the other calendar tools block the calendars
+    eventBus_.createCronJob("calendar-import-sync", {}, "*/15 * * * *", async () => {
+        await calendarImport_.syncAll()
+    })
+}
+
+export default calendarImportSyncJob;
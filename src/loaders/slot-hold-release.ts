@@ -0,0 +1,13 @@
+import SlotHoldService from "../services/slot-hold";
+
+const slotHoldReleaseJob = async (container, options) => {
+    const eventBus_ = container.resolve("eventBusService");
+    const slotHold_: SlotHoldService = container.resolve("slotHoldService");
+
+    // do cronjob every minute, release the holds of the carts which didn't finish checkout in time
+    eventBus_.createCronJob("slot-hold-release", {}, "* * * * *", async () => {
+        await slotHold_.releaseExpired()
+    })
+}
+
+export default slotHoldReleaseJob;
@@ -0,0 +1,16 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class addTimezoneFields1673260821457 implements MigrationInterface {
+    name = "addTimezoneFields1673260821457"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE location ADD "timezone" character varying NOT NULL DEFAULT 'UTC'`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "timezone" character varying NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE location DROP COLUMN "timezone"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "timezone"`);
+    }
+
+}
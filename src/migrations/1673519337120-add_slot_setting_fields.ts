@@ -0,0 +1,20 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class addSlotSettingFields1673519337120 implements MigrationInterface {
+    name = "addSlotSettingFields1673519337120"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE location ADD "slot_interval_min" integer NOT NULL DEFAULT 5`);
+        await queryRunner.query(`ALTER TABLE location ADD "slot_alignment_min" integer NULL`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "slot_interval_min" integer NULL`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "slot_alignment_min" integer NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE location DROP COLUMN "slot_interval_min"`);
+        await queryRunner.query(`ALTER TABLE location DROP COLUMN "slot_alignment_min"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "slot_interval_min"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "slot_alignment_min"`);
+    }
+
+}
@@ -0,0 +1,16 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class addCalendarBufferFields1673884615032 implements MigrationInterface {
+    name = "addCalendarBufferFields1673884615032"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE calendar ADD "buffer_before_min" integer NOT NULL DEFAULT 0`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "buffer_after_min" integer NOT NULL DEFAULT 0`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "buffer_before_min"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "buffer_after_min"`);
+    }
+
+}
@@ -0,0 +1,24 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class addBookingRuleFields1674137092748 implements MigrationInterface {
+    name = "addBookingRuleFields1674137092748"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE location ADD "min_notice_min" integer NOT NULL DEFAULT 0`);
+        await queryRunner.query(`ALTER TABLE location ADD "max_horizon_days" integer NULL`);
+        await queryRunner.query(`ALTER TABLE location ADD "same_day_cutoff" time WITHOUT time zone NULL`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "min_notice_min" integer NULL`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "max_horizon_days" integer NULL`);
+        await queryRunner.query(`ALTER TABLE calendar ADD "same_day_cutoff" time WITHOUT time zone NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE location DROP COLUMN "min_notice_min"`);
+        await queryRunner.query(`ALTER TABLE location DROP COLUMN "max_horizon_days"`);
+        await queryRunner.query(`ALTER TABLE location DROP COLUMN "same_day_cutoff"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "min_notice_min"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "max_horizon_days"`);
+        await queryRunner.query(`ALTER TABLE calendar DROP COLUMN "same_day_cutoff"`);
+    }
+
+}
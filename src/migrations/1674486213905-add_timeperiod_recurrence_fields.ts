@@ -0,0 +1,26 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class addTimeperiodRecurrenceFields1674486213905 implements MigrationInterface {
+    name = "addTimeperiodRecurrenceFields1674486213905"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "rrule" text NULL`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "exdates" timestamp with time zone array NULL`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "timezone" character varying NULL`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "recurrence_until" timestamp with time zone NULL`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "recurring_parent_id" character varying NULL`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "recurrence_id" timestamp with time zone NULL`);
+        await queryRunner.query(`CREATE INDEX "IDX_calendar_timeperiod_recurring_parent_id" ON "calendar_timeperiod" ("recurring_parent_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_calendar_timeperiod_recurring_parent_id"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "rrule"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "exdates"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "timezone"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "recurrence_until"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "recurring_parent_id"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "recurrence_id"`);
+    }
+
+}
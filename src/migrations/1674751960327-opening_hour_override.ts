@@ -0,0 +1,36 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class openingHourOverride1674751960327 implements MigrationInterface {
+    name = "openingHourOverride1674751960327"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS opening_hour_override
+            (
+                "id" character varying NOT NULL,
+                "location_id" character varying NOT NULL,
+                "date" date NOT NULL,
+                "title" character varying NULL,
+                "is_working_day" boolean NOT NULL DEFAULT false,
+                "hours" jsonb NULL,
+                "metadata" jsonb NULL,
+                "created_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "updated_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "deleted_at" timestamp WITH time zone NULL,
+                CONSTRAINT "PK_opening_hour_override_id" PRIMARY KEY ("id")
+            );
+        `)
+
+        await queryRunner.query(`CREATE INDEX "IDX_opening_hour_override_location_id" ON "opening_hour_override" ("location_id")`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_opening_hour_override_location_id_date" ON "opening_hour_override" ("location_id", "date") WHERE "deleted_at" IS NULL`);
+        await queryRunner.query(`ALTER TABLE "opening_hour_override" ADD CONSTRAINT "FK_opening_hour_override_location_id" FOREIGN KEY ("location_id") REFERENCES "location"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "opening_hour_override" DROP CONSTRAINT "FK_opening_hour_override_location_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_opening_hour_override_location_id_date"`);
+        await queryRunner.query(`DROP INDEX "IDX_opening_hour_override_location_id"`);
+        await queryRunner.query(`DROP TABLE opening_hour_override;`)
+    }
+
+}
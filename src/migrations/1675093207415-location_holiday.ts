@@ -0,0 +1,40 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class locationHoliday1675093207415 implements MigrationInterface {
+    name = "locationHoliday1675093207415"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "location_holiday_source_enum" AS ENUM ('bundled', 'ical')`)
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS location_holiday
+            (
+                "id" character varying NOT NULL,
+                "location_id" character varying NOT NULL,
+                "date" date NOT NULL,
+                "name" character varying NOT NULL,
+                "source" "location_holiday_source_enum" NOT NULL,
+                "uid" character varying NOT NULL,
+                "is_enabled" boolean NOT NULL DEFAULT true,
+                "metadata" jsonb NULL,
+                "created_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "updated_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "deleted_at" timestamp WITH time zone NULL,
+                CONSTRAINT "PK_location_holiday_id" PRIMARY KEY ("id")
+            );
+        `)
+
+        await queryRunner.query(`CREATE INDEX "IDX_location_holiday_location_id" ON "location_holiday" ("location_id")`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_location_holiday_location_id_source_uid" ON "location_holiday" ("location_id", "source", "uid") WHERE "deleted_at" IS NULL`);
+        await queryRunner.query(`ALTER TABLE "location_holiday" ADD CONSTRAINT "FK_location_holiday_location_id" FOREIGN KEY ("location_id") REFERENCES "location"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "location_holiday" DROP CONSTRAINT "FK_location_holiday_location_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_location_holiday_location_id_source_uid"`);
+        await queryRunner.query(`DROP INDEX "IDX_location_holiday_location_id"`);
+        await queryRunner.query(`DROP TABLE location_holiday;`)
+        await queryRunner.query(`DROP TYPE "location_holiday_source_enum";`)
+    }
+
+}
@@ -0,0 +1,22 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class calendarTimeperiodAppointmentExclusion1675355419861 implements MigrationInterface {
+    name = "calendarTimeperiodAppointmentExclusion1675355419861"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // btree_gist let the gist index compare calendar_id with =
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS btree_gist`);
+
+        // the timeperiods of appointments on the same calendar can't overlap, the range is [from, to) so back to back bookings are fine
+        await queryRunner.query(`
+            ALTER TABLE "calendar_timeperiod" ADD CONSTRAINT "EXCL_calendar_timeperiod_appointment"
+            EXCLUDE USING gist ("calendar_id" WITH =, tstzrange("from", "to", '[)') WITH &&)
+            WHERE ("type" = 'blocked' AND "deleted_at" IS NULL AND "metadata" ? 'appointment_id')
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "calendar_timeperiod" DROP CONSTRAINT "EXCL_calendar_timeperiod_appointment"`);
+    }
+
+}
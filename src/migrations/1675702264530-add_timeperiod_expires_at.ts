@@ -0,0 +1,16 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class addTimeperiodExpiresAt1675702264530 implements MigrationInterface {
+    name = "addTimeperiodExpiresAt1675702264530"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "expires_at" timestamp with time zone NULL`);
+        await queryRunner.query(`CREATE INDEX "IDX_calendar_timeperiod_expires_at" ON "calendar_timeperiod" ("expires_at") WHERE "expires_at" IS NOT NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_calendar_timeperiod_expires_at"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "expires_at"`);
+    }
+
+}
@@ -0,0 +1,18 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class appointmentCancellation1675961873204 implements MigrationInterface {
+    name = "appointmentCancellation1675961873204"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE appointment ADD "canceled_at" timestamp with time zone NULL`);
+        await queryRunner.query(`ALTER TABLE appointment ADD "canceled_by" character varying NULL`);
+        await queryRunner.query(`ALTER TABLE appointment ADD "cancellation_reason" text NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE appointment DROP COLUMN "cancellation_reason"`);
+        await queryRunner.query(`ALTER TABLE appointment DROP COLUMN "canceled_by"`);
+        await queryRunner.query(`ALTER TABLE appointment DROP COLUMN "canceled_at"`);
+    }
+
+}
@@ -0,0 +1,14 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class appointmentRescheduleHistory1676218304712 implements MigrationInterface {
+    name = "appointmentRescheduleHistory1676218304712"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE appointment ADD "reschedule_history" jsonb NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE appointment DROP COLUMN "reschedule_history"`);
+    }
+
+}
@@ -0,0 +1,44 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class appointmentPolicy1676474291538 implements MigrationInterface {
+    name = "appointmentPolicy1676474291538"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS appointment_policy
+            (
+                "id" character varying NOT NULL,
+                "location_id" character varying NULL,
+                "product_id" character varying NULL,
+                "name" character varying NULL,
+                "free_cancellation_min" integer NULL,
+                "late_cancellation_fee_percent" integer NOT NULL DEFAULT 0,
+                "cancellation_cutoff_min" integer NULL,
+                "reschedule_cutoff_min" integer NULL,
+                "max_reschedules" integer NULL,
+                "metadata" jsonb NULL,
+                "created_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "updated_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "deleted_at" timestamp WITH time zone NULL,
+                CONSTRAINT "PK_appointment_policy_id" PRIMARY KEY ("id"),
+                CONSTRAINT "CHK_appointment_policy_fee_percent" CHECK ("late_cancellation_fee_percent" BETWEEN 0 AND 100)
+            );
+        `)
+
+        await queryRunner.query(`CREATE INDEX "IDX_appointment_policy_location_id" ON "appointment_policy" ("location_id")`);
+        await queryRunner.query(`CREATE INDEX "IDX_appointment_policy_product_id" ON "appointment_policy" ("product_id")`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_appointment_policy_location_id_product_id" ON "appointment_policy" (COALESCE("location_id", ''), COALESCE("product_id", '')) WHERE "deleted_at" IS NULL`);
+        await queryRunner.query(`ALTER TABLE "appointment_policy" ADD CONSTRAINT "FK_appointment_policy_location_id" FOREIGN KEY ("location_id") REFERENCES "location"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "appointment_policy" ADD CONSTRAINT "FK_appointment_policy_product_id" FOREIGN KEY ("product_id") REFERENCES "product"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "appointment_policy" DROP CONSTRAINT "FK_appointment_policy_product_id"`);
+        await queryRunner.query(`ALTER TABLE "appointment_policy" DROP CONSTRAINT "FK_appointment_policy_location_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_appointment_policy_location_id_product_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_appointment_policy_product_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_appointment_policy_location_id"`);
+        await queryRunner.query(`DROP TABLE appointment_policy;`)
+    }
+
+}
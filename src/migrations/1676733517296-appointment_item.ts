@@ -0,0 +1,38 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class appointmentItem1676733517296 implements MigrationInterface {
+    name = "appointmentItem1676733517296"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS appointment_item
+            (
+                "id" character varying NOT NULL,
+                "appointment_id" character varying NOT NULL,
+                "line_item_id" character varying NOT NULL,
+                "quantity" integer NOT NULL,
+                "duration_min" integer NOT NULL,
+                "metadata" jsonb NULL,
+                "created_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "updated_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "deleted_at" timestamp WITH time zone NULL,
+                CONSTRAINT "PK_appointment_item_id" PRIMARY KEY ("id"),
+                CONSTRAINT "CHK_appointment_item_quantity" CHECK ("quantity" > 0)
+            );
+        `)
+
+        await queryRunner.query(`CREATE INDEX "IDX_appointment_item_appointment_id" ON "appointment_item" ("appointment_id")`);
+        await queryRunner.query(`CREATE INDEX "IDX_appointment_item_line_item_id" ON "appointment_item" ("line_item_id")`);
+        await queryRunner.query(`ALTER TABLE "appointment_item" ADD CONSTRAINT "FK_appointment_item_appointment_id" FOREIGN KEY ("appointment_id") REFERENCES "appointment"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "appointment_item" ADD CONSTRAINT "FK_appointment_item_line_item_id" FOREIGN KEY ("line_item_id") REFERENCES "line_item"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "appointment_item" DROP CONSTRAINT "FK_appointment_item_line_item_id"`);
+        await queryRunner.query(`ALTER TABLE "appointment_item" DROP CONSTRAINT "FK_appointment_item_appointment_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_appointment_item_line_item_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_appointment_item_appointment_id"`);
+        await queryRunner.query(`DROP TABLE appointment_item;`)
+    }
+
+}
@@ -0,0 +1,21 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class appointmentNoShow1677002419825 implements MigrationInterface {
+    name = "appointmentNoShow1677002419825"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TYPE "appointment_status_enum" ADD VALUE IF NOT EXISTS 'no_show'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // a value can't be dropped from an enum, the type is created again without it
+        await queryRunner.query(`UPDATE appointment SET "status" = 'canceled' WHERE "status" = 'no_show'`);
+        await queryRunner.query(`ALTER TABLE appointment ALTER COLUMN "status" DROP DEFAULT`);
+        await queryRunner.query(`ALTER TYPE "appointment_status_enum" RENAME TO "appointment_status_enum_old"`);
+        await queryRunner.query(`CREATE TYPE "appointment_status_enum" AS ENUM('draft', 'scheduled', 'canceled', 'requires_action', 'pending', 'reschedule', 'on_progress', 'finished')`);
+        await queryRunner.query(`ALTER TABLE appointment ALTER COLUMN "status" TYPE "appointment_status_enum" USING "status"::text::"appointment_status_enum"`);
+        await queryRunner.query(`ALTER TABLE appointment ALTER COLUMN "status" SET DEFAULT 'draft'`);
+        await queryRunner.query(`DROP TYPE "appointment_status_enum_old"`);
+    }
+
+}
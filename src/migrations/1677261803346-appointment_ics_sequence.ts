@@ -0,0 +1,14 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class appointmentIcsSequence1677261803346 implements MigrationInterface {
+    name = "appointmentIcsSequence1677261803346"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE appointment ADD "ics_sequence" integer NOT NULL DEFAULT 0`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE appointment DROP COLUMN "ics_sequence"`);
+    }
+
+}
@@ -0,0 +1,37 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class calendarFeed1677520947163 implements MigrationInterface {
+    name = "calendarFeed1677520947163"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS calendar_feed
+            (
+                "id" character varying NOT NULL,
+                "calendar_id" character varying NOT NULL,
+                "name" character varying NULL,
+                "token_hash" character varying NOT NULL,
+                "include_customer_details" boolean NOT NULL DEFAULT false,
+                "revoked_at" timestamp WITH time zone NULL,
+                "last_used_at" timestamp WITH time zone NULL,
+                "metadata" jsonb NULL,
+                "created_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "updated_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "deleted_at" timestamp WITH time zone NULL,
+                CONSTRAINT "PK_calendar_feed_id" PRIMARY KEY ("id")
+            );
+        `)
+
+        await queryRunner.query(`CREATE INDEX "IDX_calendar_feed_calendar_id" ON "calendar_feed" ("calendar_id")`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_calendar_feed_token_hash" ON "calendar_feed" ("token_hash")`);
+        await queryRunner.query(`ALTER TABLE "calendar_feed" ADD CONSTRAINT "FK_calendar_feed_calendar_id" FOREIGN KEY ("calendar_id") REFERENCES "calendar"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "calendar_feed" DROP CONSTRAINT "FK_calendar_feed_calendar_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_calendar_feed_token_hash"`);
+        await queryRunner.query(`DROP INDEX "IDX_calendar_feed_calendar_id"`);
+        await queryRunner.query(`DROP TABLE calendar_feed;`)
+    }
+
+}
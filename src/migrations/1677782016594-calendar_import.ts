@@ -0,0 +1,45 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class calendarImport1677782016594 implements MigrationInterface {
+    name = "calendarImport1677782016594"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS calendar_import_source
+            (
+                "id" character varying NOT NULL,
+                "calendar_id" character varying NOT NULL,
+                "name" character varying NULL,
+                "url" text NOT NULL,
+                "is_enabled" boolean NOT NULL DEFAULT true,
+                "last_synced_at" timestamp WITH time zone NULL,
+                "last_error" text NULL,
+                "metadata" jsonb NULL,
+                "created_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "updated_at" timestamp WITH time zone NOT NULL DEFAULT Now(),
+                "deleted_at" timestamp WITH time zone NULL,
+                CONSTRAINT "PK_calendar_import_source_id" PRIMARY KEY ("id")
+            );
+        `)
+
+        await queryRunner.query(`CREATE INDEX "IDX_calendar_import_source_calendar_id" ON "calendar_import_source" ("calendar_id")`);
+        await queryRunner.query(`ALTER TABLE "calendar_import_source" ADD CONSTRAINT "FK_calendar_import_source_calendar_id" FOREIGN KEY ("calendar_id") REFERENCES "calendar"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "external_uid" character varying NULL`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod ADD "import_source_id" character varying NULL`);
+        await queryRunner.query(`CREATE INDEX "IDX_calendar_timeperiod_external_uid" ON "calendar_timeperiod" ("external_uid")`);
+        await queryRunner.query(`CREATE INDEX "IDX_calendar_timeperiod_import_source_id" ON "calendar_timeperiod" ("import_source_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_calendar_timeperiod_import_source_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_calendar_timeperiod_external_uid"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "import_source_id"`);
+        await queryRunner.query(`ALTER TABLE calendar_timeperiod DROP COLUMN "external_uid"`);
+
+        await queryRunner.query(`ALTER TABLE "calendar_import_source" DROP CONSTRAINT "FK_calendar_import_source_calendar_id"`);
+        await queryRunner.query(`DROP INDEX "IDX_calendar_import_source_calendar_id"`);
+        await queryRunner.query(`DROP TABLE calendar_import_source;`)
+    }
+
+}
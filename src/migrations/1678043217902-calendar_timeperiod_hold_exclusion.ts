@@ -0,0 +1,30 @@
+import {MigrationInterface, QueryRunner} from "typeorm";
+
+export class calendarTimeperiodHoldExclusion1678043217902 implements MigrationInterface {
+    name = "calendarTimeperiodHoldExclusion1678043217902"
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // the expired holds are not released yet, they would keep the constraint from being added
+        await queryRunner.query(`UPDATE "calendar_timeperiod" SET "deleted_at" = now() WHERE "type" = 'hold' AND "deleted_at" IS NULL AND "expires_at" < now()`);
+
+        await queryRunner.query(`ALTER TABLE "calendar_timeperiod" DROP CONSTRAINT "EXCL_calendar_timeperiod_appointment"`);
+
+        // the holds can't overlap each other and the appointments either, an expired hold is removed before a booking is written over it
+        await queryRunner.query(`
+            ALTER TABLE "calendar_timeperiod" ADD CONSTRAINT "EXCL_calendar_timeperiod_booking"
+            EXCLUDE USING gist ("calendar_id" WITH =, tstzrange("from", "to", '[)') WITH &&)
+            WHERE ("deleted_at" IS NULL AND ("type" = 'hold' OR ("type" = 'blocked' AND "metadata" ? 'appointment_id')))
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "calendar_timeperiod" DROP CONSTRAINT "EXCL_calendar_timeperiod_booking"`);
+
+        await queryRunner.query(`
+            ALTER TABLE "calendar_timeperiod" ADD CONSTRAINT "EXCL_calendar_timeperiod_appointment"
+            EXCLUDE USING gist ("calendar_id" WITH =, tstzrange("from", "to", '[)') WITH &&)
+            WHERE ("type" = 'blocked' AND "deleted_at" IS NULL AND "metadata" ? 'appointment_id')
+        `);
+    }
+
+}
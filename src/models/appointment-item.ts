@@ -0,0 +1,48 @@
+import {
+    BeforeInsert,
+    Column,
+    Entity,
+    Index,
+    JoinColumn,
+    ManyToOne
+} from "typeorm"
+
+import { LineItem, SoftDeletableEntity } from "@medusajs/medusa";
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column";
+import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { Appointment } from "./appointment";
+
+// a service line item of the order, booked in the appointment
+@Entity()
+export class AppointmentItem extends SoftDeletableEntity {
+    @Index()
+    @Column({ type: "varchar", nullable: false })
+    appointment_id: string
+
+    @ManyToOne(() => Appointment, (a) => a.items)
+    @JoinColumn({ name: "appointment_id" })
+    appointment: Appointment | null
+
+    @Index()
+    @Column({ type: "varchar", nullable: false })
+    line_item_id: string
+
+    @ManyToOne(() => LineItem)
+    @JoinColumn({ name: "line_item_id" })
+    line_item: LineItem | null
+
+    @Column({ type: "int" })
+    quantity: number
+
+    // duration of the quantity, without buffer
+    @Column({ type: "int" })
+    duration_min: number
+
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    metadata: Record<string, unknown>
+
+    @BeforeInsert()
+    private beforeInsert(): void {
+        this.id = generateEntityId(this.id, "apit")
+    }
+}
@@ -0,0 +1,64 @@
+import {
+    BeforeInsert,
+    Column,
+    Entity,
+    Index,
+    JoinColumn,
+    ManyToOne
+} from "typeorm"
+
+import { Product, SoftDeletableEntity } from "@medusajs/medusa";
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column";
+import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { Location } from "./location";
+
+// a policy without location and product is the default one
+@Entity()
+export class AppointmentPolicy extends SoftDeletableEntity {
+    @Index()
+    @Column({ type: "varchar", nullable: true })
+    location_id: string | null
+
+    @ManyToOne(() => Location)
+    @JoinColumn({ name: "location_id" })
+    location: Location | null
+
+    // the service
+    @Index()
+    @Column({ type: "varchar", nullable: true })
+    product_id: string | null
+
+    @ManyToOne(() => Product)
+    @JoinColumn({ name: "product_id" })
+    product: Product | null
+
+    @Column({ type: "varchar", nullable: true })
+    name: string | null
+
+    // cancellation is free until this many minutes before the appointment, always free when null
+    @Column({ type: "int", nullable: true })
+    free_cancellation_min: number | null
+
+    // percent of the order total kept when the cancellation isn't free
+    @Column({ type: "int", default: 0 })
+    late_cancellation_fee_percent: number
+
+    // no cancellation within this many minutes before the appointment
+    @Column({ type: "int", nullable: true })
+    cancellation_cutoff_min: number | null
+
+    // no reschedule within this many minutes before the appointment
+    @Column({ type: "int", nullable: true })
+    reschedule_cutoff_min: number | null
+
+    @Column({ type: "int", nullable: true })
+    max_reschedules: number | null
+
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    metadata: Record<string, unknown>
+
+    @BeforeInsert()
+    private beforeInsert(): void {
+        this.id = generateEntityId(this.id, "apol")
+    }
+}
@@ -9,9 +9,11 @@ import {
     Generated
 } from "typeorm"
 
-import { Order, LineItem, SoftDeletableEntity } from "@medusajs/medusa";
+import { Order, SoftDeletableEntity } from "@medusajs/medusa";
 import { DbAwareColumn, resolveDbGenerationStrategy } from "@medusajs/medusa/dist/utils/db-aware-column";
 import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { AppointmentRescheduleEntry } from "../types/appointment";
+import { AppointmentItem } from "./appointment-item";
 
 export enum AppointmentStatus {
     DRAFT = 'draft',
@@ -21,7 +23,8 @@ export enum AppointmentStatus {
     PENDING = 'pending',
     RESCHEDULE = 'reschedule',
     ON_PROGRESS = 'on_progress',
-    FINISHED = 'finished'
+    FINISHED = 'finished',
+    NO_SHOW = 'no_show'
 }
 
 @Entity()
@@ -47,10 +50,11 @@ export class Appointment extends SoftDeletableEntity {
     @Column({ type: "timestamp with time zone", nullable: true })
     to: Date | null
 
-    @OneToMany(() => LineItem, (lineItem) => lineItem.order, {
+    // the service line items of the order which are booked in this appointment
+    @OneToMany(() => AppointmentItem, (item) => item.appointment, {
         cascade: ["insert"],
     })
-    items: LineItem[]
+    items: AppointmentItem[]
 
     @Column({ type: "varchar", nullable: true })
     order_id: string | null
@@ -65,6 +69,24 @@ export class Appointment extends SoftDeletableEntity {
     @Column({ type: "boolean"})
     is_confirmed: boolean
 
+    @Column({ type: "timestamp with time zone", nullable: true })
+    canceled_at: Date | null
+
+    // id of the admin user or the customer who canceled
+    @Column({ type: "varchar", nullable: true })
+    canceled_by: string | null
+
+    @Column({ type: "text", nullable: true })
+    cancellation_reason: string | null
+
+    // previous times of the appointment, the oldest first
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    reschedule_history: AppointmentRescheduleEntry[] | null
+
+    // SEQUENCE of the iCalendar event, increased when the appointment is rescheduled or canceled
+    @Column({ type: "integer", default: 0 })
+    ics_sequence: number
+
     @DbAwareColumn({ type: "jsonb", nullable: true })
     metadata: Record<string, unknown>
   
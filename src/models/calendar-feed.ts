@@ -0,0 +1,51 @@
+import {
+    BeforeInsert,
+    Column,
+    Entity,
+    Index,
+    JoinColumn,
+    ManyToOne
+} from "typeorm"
+
+import { SoftDeletableEntity } from "@medusajs/medusa";
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column";
+import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { Calendar } from "./calendar";
+
+// a token to subscribe to a calendar from Google / Apple Calendar, only its hash is kept
+@Entity()
+export class CalendarFeed extends SoftDeletableEntity {
+    @Index()
+    @Column({ type: "varchar", nullable: false })
+    calendar_id: string
+
+    @ManyToOne(() => Calendar)
+    @JoinColumn({ name: "calendar_id" })
+    calendar: Calendar | null
+
+    @Column({ type: "varchar", nullable: true })
+    name: string | null
+
+    // sha256 of the token, the token is only shown when the feed is created
+    @Index({ unique: true })
+    @Column({ type: "varchar", nullable: false, select: false })
+    token_hash: string
+
+    // names and contact of the customers in the appointments, hidden by default
+    @Column({ type: "boolean", default: false })
+    include_customer_details: boolean
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    revoked_at: Date | null
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    last_used_at: Date | null
+
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    metadata: Record<string, unknown>
+
+    @BeforeInsert()
+    private beforeInsert(): void {
+        this.id = generateEntityId(this.id, "cfeed")
+    }
+}
@@ -0,0 +1,50 @@
+import {
+    BeforeInsert,
+    Column,
+    Entity,
+    Index,
+    JoinColumn,
+    ManyToOne
+} from "typeorm"
+
+import { SoftDeletableEntity } from "@medusajs/medusa";
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column";
+import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { Calendar } from "./calendar";
+
+// an iCalendar file of another calendar tool, its busy events block the calendar and it's synced by the calendar-import-sync job
+@Entity()
+export class CalendarImportSource extends SoftDeletableEntity {
+    @Index()
+    @Column({ type: "varchar", nullable: false })
+    calendar_id: string
+
+    @ManyToOne(() => Calendar)
+    @JoinColumn({ name: "calendar_id" })
+    calendar: Calendar | null
+
+    @Column({ type: "varchar", nullable: true })
+    name: string | null
+
+    // http(s) url of the .ics file, or a local file when calendar_import_allow_local_files is enabled
+    @Column({ type: "text", nullable: false })
+    url: string
+
+    @Column({ type: "boolean", default: true })
+    is_enabled: boolean
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    last_synced_at: Date | null
+
+    // message of the last sync which failed, null when it worked
+    @Column({ type: "text", nullable: true })
+    last_error: string | null
+
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    metadata: Record<string, unknown>
+
+    @BeforeInsert()
+    private beforeInsert(): void {
+        this.id = generateEntityId(this.id, "cisrc")
+    }
+}
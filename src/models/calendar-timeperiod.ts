@@ -34,6 +34,45 @@ export class CalendarTimeperiod extends SoftDeletableEntity {
     @JoinColumn({ name: "calendar_id" })
     calendar: Calendar | null
 
+    // RFC 5545 RRULE value, from and to are the first occurrence
+    @Column({ type: "text", nullable: true })
+    rrule: string | null
+
+    // start of the occurrences which are left out of the series
+    @Column({ type: "timestamp with time zone", array: true, nullable: true })
+    exdates: Date[] | null
+
+    // IANA time zone the rrule is expanded in
+    @Column({ type: "varchar", nullable: true })
+    timezone: string | null
+
+    // end of the last occurrence, null when the series repeat forever
+    @Column({ type: "timestamp with time zone", nullable: true })
+    recurrence_until: Date | null
+
+    // series this timeperiod was detached from, when one occurrence is edited
+    @Index()
+    @Column({ type: "varchar", nullable: true })
+    recurring_parent_id: string | null
+
+    // original start of the detached occurrence
+    @Column({ type: "timestamp with time zone", nullable: true })
+    recurrence_id: Date | null
+
+    // a hold stop blocking the slot after this time
+    @Column({ type: "timestamp with time zone", nullable: true })
+    expires_at: Date | null
+
+    // UID of the event in the imported iCalendar file, with recurrence_id for a changed occurrence
+    @Index()
+    @Column({ type: "varchar", nullable: true })
+    external_uid: string | null
+
+    // source the event was imported from, null for an uploaded file
+    @Index()
+    @Column({ type: "varchar", nullable: true })
+    import_source_id: string | null
+
     @DbAwareColumn({ type: "jsonb", nullable: true })
     metadata: Record<string, unknown>
   
@@ -21,6 +21,34 @@ export class Calendar extends SoftDeletableEntity {
     @Column({ type: "varchar", nullable: true, default: "#D3D3D3" })
     color: string
 
+    // IANA time zone, when empty the time zone of the location is used
+    @Column({ type: "varchar", nullable: true })
+    timezone: string | null
+
+    // slot setting of the calendar, when empty the setting of the location is used
+    @Column({ type: "integer", nullable: true })
+    slot_interval_min: number | null
+
+    @Column({ type: "integer", nullable: true })
+    slot_alignment_min: number | null
+
+    // time kept free before and after an appointment, used when the services don't set their own buffer
+    @Column({ type: "integer", default: 0 })
+    buffer_before_min: number
+
+    @Column({ type: "integer", default: 0 })
+    buffer_after_min: number
+
+    // booking rules of the calendar, when empty the rules of the location are used
+    @Column({ type: "integer", nullable: true })
+    min_notice_min: number | null
+
+    @Column({ type: "integer", nullable: true })
+    max_horizon_days: number | null
+
+    @Column({ type: "time without time zone", nullable: true })
+    same_day_cutoff: string | null
+
     @OneToMany(() => CalendarTimeperiod, (ct) => ct.calendar)
     @JoinColumn({ name: "id" })
     timeperiods: CalendarTimeperiod | null
@@ -0,0 +1,55 @@
+import {
+    BeforeInsert,
+    Column,
+    Entity,
+    Index,
+    JoinColumn,
+    ManyToOne
+} from "typeorm"
+
+import { SoftDeletableEntity } from "@medusajs/medusa";
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column";
+import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { Location } from "./location";
+
+export enum HolidaySource {
+    BUNDLED = "bundled",
+    ICAL = "ical",
+}
+
+@Entity()
+export class LocationHoliday extends SoftDeletableEntity {
+    @Index()
+    @Column({ type: "varchar", nullable: false })
+    location_id: string
+
+    @ManyToOne(() => Location)
+    @JoinColumn({ name: "location_id" })
+    location: Location | null
+
+    // the day "YYYY-MM-DD" in the time zone of the location
+    @Column({ type: "date" })
+    date: string
+
+    @Column({ type: "varchar" })
+    name: string
+
+    @DbAwareColumn({ type: "enum", enum: HolidaySource })
+    source: HolidaySource
+
+    // identify the holiday between imports, the rule key for bundled data or the UID of the iCalendar event
+    @Column({ type: "varchar" })
+    uid: string
+
+    // a disabled holiday don't close the location
+    @Column({ type: "boolean", default: true })
+    is_enabled: boolean
+
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    metadata: Record<string, unknown>
+
+    @BeforeInsert()
+    private beforeInsert(): void {
+        this.id = generateEntityId(this.id, "lhol")
+    }
+}
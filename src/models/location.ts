@@ -87,6 +87,26 @@ export class Location extends SoftDeletableEntity {
 
     @Column({ type: "varchar", nullable: true })
     latitude: string | null
+
+    @Column({ type: "varchar", default: "UTC" })
+    timezone: string
+
+    @Column({ type: "integer", default: 5 })
+    slot_interval_min: number
+
+    // only start a slot on a multiple of this minutes, e.g. 15 for the quarter hour
+    @Column({ type: "integer", nullable: true })
+    slot_alignment_min: number | null
+
+    // booking rules, minimum time before the appointment, maximum days in advance and the time after that today can't be booked
+    @Column({ type: "integer", default: 0 })
+    min_notice_min: number
+
+    @Column({ type: "integer", nullable: true })
+    max_horizon_days: number | null
+
+    @Column({ type: "time without time zone", nullable: true })
+    same_day_cutoff: string | null
   
     @DbAwareColumn({ type: "jsonb", nullable: true })
     metadata: Record<string, unknown>
@@ -0,0 +1,47 @@
+import {
+    BeforeInsert,
+    Column,
+    Entity,
+    Index,
+    JoinColumn,
+    ManyToOne
+} from "typeorm"
+
+import { SoftDeletableEntity } from "@medusajs/medusa";
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column";
+import { generateEntityId } from "@medusajs/medusa/dist/utils";
+import { Location } from "./location";
+import { OpeningHour } from "../types/opening-hour-override";
+
+@Entity()
+export class OpeningHourOverride extends SoftDeletableEntity {
+    @Index()
+    @Column({ type: "varchar", nullable: false })
+    location_id: string
+
+    @ManyToOne(() => Location)
+    @JoinColumn({ name: "location_id" })
+    location: Location | null
+
+    // the day "YYYY-MM-DD" in the time zone of the location
+    @Column({ type: "date" })
+    date: string
+
+    @Column({ type: "varchar", nullable: true })
+    title: string | null
+
+    @Column({ type: "boolean" })
+    is_working_day: boolean
+
+    // opening hours of the day, a closed day don't have any
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    hours: OpeningHour[] | null
+
+    @DbAwareColumn({ type: "jsonb", nullable: true })
+    metadata: Record<string, unknown>
+
+    @BeforeInsert()
+    private beforeInsert(): void {
+        this.id = generateEntityId(this.id, "ohov")
+    }
+}
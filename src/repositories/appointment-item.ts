@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { AppointmentItem } from "../models/appointment-item"
+
+@EntityRepository(AppointmentItem)
+export class AppointmentItemRepository extends Repository<AppointmentItem> {}
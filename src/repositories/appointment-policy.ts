@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { AppointmentPolicy } from "../models/appointment-policy"
+
+@EntityRepository(AppointmentPolicy)
+export class AppointmentPolicyRepository extends Repository<AppointmentPolicy> {}
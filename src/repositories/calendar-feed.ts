@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { CalendarFeed } from "../models/calendar-feed"
+
+@EntityRepository(CalendarFeed)
+export class CalendarFeedRepository extends Repository<CalendarFeed> {}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { CalendarImportSource } from "../models/calendar-import-source"
+
+@EntityRepository(CalendarImportSource)
+export class CalendarImportSourceRepository extends Repository<CalendarImportSource> {}
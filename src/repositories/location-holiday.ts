@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { LocationHoliday } from "../models/location-holiday"
+
+@EntityRepository(LocationHoliday)
+export class LocationHolidayRepository extends Repository<LocationHoliday> {}
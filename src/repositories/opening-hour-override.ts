@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { OpeningHourOverride } from "../models/opening-hour-override"
+
+@EntityRepository(OpeningHourOverride)
+export class OpeningHourOverrideRepository extends Repository<OpeningHourOverride> {}
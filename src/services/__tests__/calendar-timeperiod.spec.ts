@@ -0,0 +1,162 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import CalendarTimeperiodService from "../calendar-timeperiod"
+import { RecurrenceScope } from "../../types/calendar-timeperiod"
+import { parseRecurrenceRule } from "../../utils/recurrence"
+
+// a weekly break on monday 12:00 - 13:00 in Berlin, with the occurrence of 2023-03-27 already detached
+const series = {
+    id: "ctp_series",
+    title: "Lunch",
+    type: "blocked",
+    calendar_id: "cal_1",
+    from: new Date("2023-03-20T11:00:00Z"),
+    to: new Date("2023-03-20T12:00:00Z"),
+    rrule: "FREQ=WEEKLY;COUNT=5",
+    exdates: [new Date("2023-03-27T10:00:00Z")],
+    timezone: "Europe/Berlin",
+    metadata: { source: "admin" },
+}
+
+const occurrence = new Date("2023-04-03T10:00:00Z")
+
+describe("CalendarTimeperiodService", () => {
+    const calendarTimeperiodRepository = MockRepository({
+        findOne: () => Promise.resolve({ ...series }),
+    })
+
+    const calendarTimeperiodService = new CalendarTimeperiodService({
+        manager: MockManager,
+        calendarTimeperiodRepository,
+        eventBusService: {},
+    } as any)
+
+    let update: jest.SpyInstance
+    let create: jest.SpyInstance
+    let remove: jest.SpyInstance
+
+    beforeEach(() => {
+        jest.clearAllMocks()
+
+        update = jest.spyOn(CalendarTimeperiodService.prototype, "update").mockResolvedValue({} as any)
+        create = jest.spyOn(CalendarTimeperiodService.prototype, "create").mockResolvedValue({} as any)
+        remove = jest.spyOn(CalendarTimeperiodService.prototype, "delete").mockResolvedValue()
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    describe("updateOccurrence", () => {
+        const change = { title: "Team lunch", to: new Date("2023-04-03T12:00:00Z") }
+
+        it("detaches the occurrence with the scope THIS", async () => {
+            await calendarTimeperiodService.updateOccurrence(series.id, occurrence, RecurrenceScope.THIS, change)
+
+            expect(update).toHaveBeenCalledTimes(1)
+            expect(update).toHaveBeenCalledWith(series.id, {
+                exdates: [...series.exdates, occurrence],
+            })
+
+            expect(create).toHaveBeenCalledTimes(1)
+            expect(create).toHaveBeenCalledWith(expect.objectContaining({
+                title: "Team lunch",
+                type: "blocked",
+                calendar_id: "cal_1",
+                timezone: "Europe/Berlin",
+                from: occurrence,
+                to: change.to,
+                rrule: null,
+                exdates: null,
+                recurring_parent_id: series.id,
+                recurrence_id: occurrence,
+                metadata: { source: "admin" },
+            }))
+        })
+
+        it("splits the series at the occurrence with the scope FOLLOWING", async () => {
+            await calendarTimeperiodService.updateOccurrence(series.id, occurrence, RecurrenceScope.FOLLOWING, change)
+
+            expect(update).toHaveBeenCalledTimes(1)
+            const [id, before] = update.mock.calls[0]
+            expect(id).toEqual(series.id)
+            expect(before.exdates).toEqual(series.exdates)
+            expect(parseRecurrenceRule(before.rrule).until).toEqual(new Date("2023-04-03T09:59:59Z"))
+
+            expect(create).toHaveBeenCalledTimes(1)
+            const [after] = create.mock.calls[0]
+            expect(after).toEqual(expect.objectContaining({
+                title: "Team lunch",
+                from: occurrence,
+                to: change.to,
+                exdates: [],
+            }))
+            expect(after.recurring_parent_id).toBeUndefined()
+            // the first two of the five occurrences stay in the old series
+            expect(parseRecurrenceRule(after.rrule).count).toEqual(3)
+        })
+
+        it("updates the series from its first occurrence with the scope FOLLOWING", async () => {
+            await calendarTimeperiodService.updateOccurrence(series.id, series.from, RecurrenceScope.FOLLOWING, change)
+
+            expect(update).toHaveBeenCalledWith(series.id, change)
+            expect(create).not.toHaveBeenCalled()
+        })
+
+        it("updates the series with the scope ALL", async () => {
+            await calendarTimeperiodService.updateOccurrence(series.id, occurrence, RecurrenceScope.ALL, change)
+
+            expect(update).toHaveBeenCalledTimes(1)
+            expect(update).toHaveBeenCalledWith(series.id, change)
+            expect(create).not.toHaveBeenCalled()
+        })
+
+        it("fails when the time is not an occurrence of the series", async () => {
+            await expect(
+                calendarTimeperiodService.updateOccurrence(
+                    series.id,
+                    new Date("2023-04-03T11:00:00Z"),
+                    RecurrenceScope.THIS,
+                    change
+                )
+            ).rejects.toThrow("is not an occurrence")
+
+            expect(update).not.toHaveBeenCalled()
+            expect(create).not.toHaveBeenCalled()
+        })
+    })
+
+    describe("deleteOccurrence", () => {
+        it("adds the occurrence to the exception dates with the scope THIS", async () => {
+            await calendarTimeperiodService.deleteOccurrence(series.id, occurrence, RecurrenceScope.THIS)
+
+            expect(update).toHaveBeenCalledWith(series.id, {
+                exdates: [...series.exdates, occurrence],
+            })
+            expect(remove).not.toHaveBeenCalled()
+        })
+
+        it("ends the series before the occurrence with the scope FOLLOWING", async () => {
+            await calendarTimeperiodService.deleteOccurrence(series.id, occurrence, RecurrenceScope.FOLLOWING)
+
+            expect(update).toHaveBeenCalledTimes(1)
+            const [, before] = update.mock.calls[0]
+            expect(before.exdates).toEqual(series.exdates)
+            expect(parseRecurrenceRule(before.rrule).until).toEqual(new Date("2023-04-03T09:59:59Z"))
+            expect(remove).not.toHaveBeenCalled()
+        })
+
+        it("deletes the series from its first occurrence with the scope FOLLOWING", async () => {
+            await calendarTimeperiodService.deleteOccurrence(series.id, series.from, RecurrenceScope.FOLLOWING)
+
+            expect(remove).toHaveBeenCalledWith(series.id)
+            expect(update).not.toHaveBeenCalled()
+        })
+
+        it("deletes the series with the scope ALL", async () => {
+            await calendarTimeperiodService.deleteOccurrence(series.id, occurrence, RecurrenceScope.ALL)
+
+            expect(remove).toHaveBeenCalledWith(series.id)
+            expect(update).not.toHaveBeenCalled()
+        })
+    })
+})
@@ -0,0 +1,113 @@
+import { TransactionBaseService } from "@medusajs/medusa";
+import { EntityManager } from "typeorm";
+import AppointmentService from "./appointment";
+import AppointmentReminderService from "./appointment-reminder";
+import {
+  AppointmentEventData,
+  AppointmentNotificationAttachment,
+  AppointmentTemplateData,
+} from "../types/appointment-notification";
+import { formatDate, formatTime } from "../utils/date-utils";
+
+type InjectedDependencies = {
+  manager: EntityManager;
+  appointmentService: AppointmentService;
+};
+
+/**
+ * Hook for the notification providers, like the fetchData / fetchAttachments of medusa-plugin-sendgrid
+ * a provider subscribed to the appointment events call it in sendNotification to get the template data and files
+ */
+class AppointmentNotificationService extends TransactionBaseService {
+  protected manager_: EntityManager;
+  protected transactionManager_: EntityManager | undefined;
+
+  protected readonly appointment_: AppointmentService;
+
+  // the events with the AppointmentEventData payload
+  static readonly Events = [
+    AppointmentService.Events.SCHEDULED,
+    AppointmentService.Events.CONFIRMED,
+    AppointmentService.Events.RESCHEDULED,
+    AppointmentService.Events.CANCELED,
+    AppointmentService.Events.STARTED,
+    AppointmentService.Events.FINISHED,
+    AppointmentService.Events.NO_SHOW,
+    AppointmentReminderService.Events.EMAIL,
+    AppointmentReminderService.Events.SMS,
+  ];
+
+  // the events with the .ics file of the appointment in attachment
+  static readonly CalendarEvents = [
+    AppointmentService.Events.SCHEDULED,
+    AppointmentService.Events.CONFIRMED,
+    AppointmentService.Events.RESCHEDULED,
+    AppointmentService.Events.CANCELED,
+  ];
+
+  constructor({ manager, appointmentService }: InjectedDependencies) {
+    super(arguments[0]);
+
+    this.manager_ = manager;
+    this.appointment_ = appointmentService;
+  }
+
+  isAppointmentEvent(event: string): boolean {
+    return AppointmentNotificationService.Events.includes(event);
+  }
+
+  /**
+   * Get the data of the template, the times are formatted in the time zone of the appointment
+   * a payload with only the id, like the one of a notification sent again, is built from the appointment
+   * @param event name of the event
+   * @param data payload of the event
+   */
+  async fetchData(
+    event: string,
+    data: Partial<AppointmentEventData> & { id: string }
+  ): Promise<AppointmentTemplateData> {
+    const eventData = data.appointment
+      ? (data as AppointmentEventData)
+      : await this.appointment_.buildEventData(data.id, data);
+
+    const { from, to, timezone } = eventData.appointment;
+
+    return {
+      ...eventData,
+      event,
+      local: {
+        date: from ? formatDate(from, timezone) : null,
+        start_time: from ? formatTime(from, timezone) : null,
+        end_time: to ? formatTime(to, timezone) : null,
+      },
+    };
+  }
+
+  /**
+   * Get the files to attach to the notification of an event
+   * the booking, its changes and its cancellation have the .ics file, with the same uid and a higher sequence
+   * @param event name of the event
+   * @param data payload of the event
+   */
+  async fetchAttachments(
+    event: string,
+    data: Partial<AppointmentEventData> & { id: string }
+  ): Promise<AppointmentNotificationAttachment[]> {
+    if (!AppointmentNotificationService.CalendarEvents.includes(event)) return [];
+
+    const appointment = await this.appointment_.retrieve(data.id, {});
+    if (!appointment.from || !appointment.to) return [];
+
+    const ics = await this.appointment_.renderICalendar(data.id);
+
+    return [
+      {
+        name: `appointment-${appointment.display_id}.ics`,
+        base64: Buffer.from(ics).toString("base64"),
+        type: "text/calendar",
+      },
+    ];
+  }
+}
+
+export default AppointmentNotificationService;
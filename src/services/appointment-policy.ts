@@ -0,0 +1,401 @@
+import { EventBusService, LineItem, Order, OrderService, PaymentProviderService, TransactionBaseService } from '@medusajs/medusa';
+import { PaymentStatus } from '@medusajs/medusa/dist/models/order';
+import { formatException } from '@medusajs/medusa/dist/utils/exception-formatter';
+import { buildQuery } from '@medusajs/medusa/dist/utils/build-query';
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager, IsNull } from "typeorm"
+import { AppointmentPolicyRepository } from "../repositories/appointment-policy";
+import { AppointmentItemRepository } from "../repositories/appointment-item";
+import { AppointmentPolicy } from '../models/appointment-policy';
+import { Appointment } from '../models/appointment';
+import { AppointmentItem } from '../models/appointment-item';
+import {
+    CancellationDecision,
+    CreateAppointmentPolicyInput,
+    UpdateAppointmentPolicyInput
+} from '../types/appointment-policy';
+import { setMetadata } from '@medusajs/medusa/dist/utils';
+import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
+
+type InjectedDependencies = {
+    manager: EntityManager
+    appointmentPolicyRepository: typeof AppointmentPolicyRepository
+    appointmentItemRepository: typeof AppointmentItemRepository
+    orderService: OrderService
+    paymentProviderService: PaymentProviderService
+    eventBusService: EventBusService
+}
+
+class AppointmentPolicyService extends TransactionBaseService {
+    protected manager_: EntityManager
+    protected transactionManager_: EntityManager | undefined
+
+    protected readonly appointmentPolicyRepository_: typeof AppointmentPolicyRepository
+    protected readonly appointmentItemRepository_: typeof AppointmentItemRepository
+    protected readonly order_: OrderService
+    protected readonly paymentProvider_: PaymentProviderService
+    protected readonly eventBus_: EventBusService
+
+    static readonly IndexName = `appointmentpolicies`
+    static readonly Events = {
+        UPDATED: "appointment-policy.updated",
+        CREATED: "appointment-policy.created",
+        DELETED: "appointment-policy.deleted",
+        FEE_CHARGED: "appointment-policy.fee_charged",
+    }
+    static readonly Errors = {
+        CANCELLATION_CLOSED: "policy_cancellation_closed",
+        RESCHEDULE_CLOSED: "policy_reschedule_closed",
+        RESCHEDULE_LIMIT: "policy_reschedule_limit",
+    }
+
+    constructor({
+        manager,
+        appointmentPolicyRepository,
+        appointmentItemRepository,
+        orderService,
+        paymentProviderService,
+        eventBusService,
+    }: InjectedDependencies) {
+        super(arguments[0]);
+
+        this.manager_ = manager;
+        this.appointmentPolicyRepository_ = appointmentPolicyRepository;
+        this.appointmentItemRepository_ = appointmentItemRepository;
+        this.order_ = orderService;
+        this.paymentProvider_ = paymentProviderService;
+        this.eventBus_ = eventBusService;
+    }
+
+    async list(
+        selector: Selector<AppointmentPolicy>,
+        config: FindConfig<AppointmentPolicy> = {
+          skip: 0,
+          take: 50,
+          relations: [],
+        }
+      ): Promise<AppointmentPolicy[]> {
+        const appointmentPolicyRepo = this.manager_.getCustomRepository(this.appointmentPolicyRepository_)
+
+        const query = buildQuery(selector, config)
+
+        return appointmentPolicyRepo.find(query)
+    }
+
+    async retrieve(appointmentPolicyId: string, config: FindConfig<AppointmentPolicy> = {}) {
+        const manager = this.manager_
+        const appointmentPolicyRepo = manager.getCustomRepository(this.appointmentPolicyRepository_)
+
+        const appointmentPolicy = await appointmentPolicyRepo.findOne(appointmentPolicyId, config)
+
+        if (!appointmentPolicy) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `AppointmentPolicy with ${appointmentPolicyId} was not found`
+            )
+        }
+
+        return appointmentPolicy
+    }
+
+    async create(appointmentPolicyObject: CreateAppointmentPolicyInput): Promise<AppointmentPolicy> {
+        return await this.atomicPhase_(async (manager) => {
+            const appointmentPolicyRepo = manager.getCustomRepository(this.appointmentPolicyRepository_)
+
+            const {
+                ...rest
+            } = appointmentPolicyObject
+
+            try {
+                let appointmentPolicy: any = appointmentPolicyRepo.create(rest)
+                appointmentPolicy = await appointmentPolicyRepo.save(appointmentPolicy)
+
+                const result = await this.retrieve(appointmentPolicy.id, {})
+
+                await this.eventBus_
+                    .withTransaction(manager)
+                    .emit(AppointmentPolicyService.Events.CREATED, {
+                        id: result.id,
+                    })
+                return result
+            } catch (error) {
+                throw formatException(error)
+            }
+        })
+    }
+
+    async delete(appointmentPolicyId: string): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            const appointmentPolicyRepo = manager.getCustomRepository(this.appointmentPolicyRepository_)
+
+            const appointmentPolicy = await appointmentPolicyRepo.findOne(
+                { id: appointmentPolicyId },
+                {}
+            )
+
+            if (!appointmentPolicy) {
+                return
+            }
+
+            await appointmentPolicyRepo.softRemove(appointmentPolicy)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(AppointmentPolicyService.Events.DELETED, {
+                    id: appointmentPolicyId,
+                })
+
+            return Promise.resolve()
+        })
+    }
+
+    async update(
+        appointmentPolicyId: string,
+        update: UpdateAppointmentPolicyInput
+    ): Promise<AppointmentPolicy> {
+        return await this.atomicPhase_(async (manager) => {
+            const appointmentPolicyRepo = manager.getCustomRepository(this.appointmentPolicyRepository_)
+
+            const appointmentPolicy = await this.retrieve(appointmentPolicyId, {})
+
+            const {
+                metadata,
+                ...rest
+            } = update
+
+            if (metadata) {
+                appointmentPolicy.metadata = setMetadata(appointmentPolicy, metadata)
+            }
+
+            for (const [key, value] of Object.entries(rest)) {
+                if (typeof value !== `undefined`) {
+                    appointmentPolicy[key] = value
+                }
+            }
+
+            const result = await appointmentPolicyRepo.save(appointmentPolicy).catch((error) => {
+                throw formatException(error)
+            })
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(AppointmentPolicyService.Events.UPDATED, {
+                    id: result.id,
+                    fields: Object.keys(update),
+                })
+            return result
+        })
+    }
+
+    /**
+     * Get the policy of an appointment, the most specific one is used:
+     * location and service, then service, then location, then the default policy
+     * when the services have different policies, the one of the first service with a policy is used
+     * @param locationId location of the appointment
+     * @param productIds services of the appointment
+     */
+    async resolve(locationId: string | null, productIds: string[]): Promise<AppointmentPolicy | null> {
+        const policies = [
+            ...(locationId ? await this.list({ location_id: locationId }, {}) : []),
+            ...await this.list({ location_id: IsNull() }, {}),
+        ]
+
+        const find = (location: boolean, product: boolean) => {
+            for (const productId of product ? productIds : [null]) {
+                const policy = policies.find((x) =>
+                    (location ? x.location_id === locationId : !x.location_id) &&
+                    (product ? x.product_id === productId : !x.product_id)
+                )
+                if (policy) return policy
+            }
+            return null
+        }
+
+        return find(true, true) ?? find(false, true) ?? find(true, false) ?? find(false, false)
+    }
+
+    // the booked items of the appointment, they are loaded when the appointment comes without them
+    protected async retrieveAppointmentItems_(appointment: Appointment): Promise<AppointmentItem[]> {
+        if (appointment.items) return appointment.items
+
+        const appointmentItemRepo = this.manager_.getCustomRepository(this.appointmentItemRepository_)
+        return await appointmentItemRepo.find({ appointment_id: appointment.id })
+    }
+
+    /**
+     * Get the line items of the order booked in the appointment, with the quantity of the appointment
+     * every item of the order for an appointment without items
+     */
+    protected async retrieveBookedLineItems_(
+        appointment: Appointment,
+        order: Order
+    ): Promise<{ item: LineItem, quantity: number }[]> {
+        const booked = new Map(
+            (await this.retrieveAppointmentItems_(appointment)).map((x) => [x.line_item_id, x.quantity])
+        )
+
+        return order.items
+            .filter((x) => !booked.size || booked.has(x.id))
+            .map((x) => ({ item: x, quantity: booked.get(x.id) ?? x.quantity }))
+    }
+
+    async resolveByAppointment(appointment: Appointment): Promise<AppointmentPolicy | null> {
+        const order = await this.order_.retrieve(appointment.order_id, {
+            relations: ["items", "items.variant"],
+        })
+
+        const locationId = (appointment.metadata?.location as { id?: string })?.id ?? null
+        const items = await this.retrieveBookedLineItems_(appointment, order)
+        const productIds = [...new Set(items.map((x) => x.item.variant?.product_id).filter(Boolean))]
+
+        return await this.resolve(locationId, productIds)
+    }
+
+    protected minutesUntil_(appointment: Appointment, now: Date) {
+        if (!appointment.from) return Infinity
+        return (new Date(appointment.from).getTime() - now.getTime()) / 60000
+    }
+
+    protected async retrieveOrderTotals_(orderId: string): Promise<Order> {
+        return await this.atomicPhase_(async (manager) => {
+            return await this.order_.withTransaction(manager).retrieve(orderId, {
+                // items.refundable is a total of the order service, not a column
+                select: ["id", "payment_status", "total", "paid_total", "refunded_total", "refundable_amount", "items.refundable"] as (keyof Order)[],
+                relations: ["items"],
+            })
+        })
+    }
+
+    /**
+     * Get the amount paid for the appointment, the refundable amount of its items for the quantity it booked
+     * the other appointments and products of the order are not part of it
+     */
+    protected async getAppointmentAmount_(appointment: Appointment, order: Order): Promise<number> {
+        const items = await this.retrieveBookedLineItems_(appointment, order)
+
+        return items.reduce((acc, { item, quantity }) => {
+            const left = item.quantity - (item.returned_quantity ?? 0)
+            if (left <= 0) return acc
+
+            return acc + Math.round(((item.refundable ?? 0) * Math.min(quantity, left)) / left)
+        }, 0)
+    }
+
+    /**
+     * Check the appointment can be canceled now and calculate the fee, throw a MedusaError when it can't be canceled
+     * the fee is a percent of the amount of the appointment, the rest of this amount is refunded
+     * a payment which is only authorized for this appointment alone is released instead when there is no fee
+     */
+    async checkCancellation(appointment: Appointment, now: Date = new Date()): Promise<CancellationDecision> {
+        const policy = await this.resolveByAppointment(appointment)
+        const minutesUntil = this.minutesUntil_(appointment, now)
+
+        if (policy?.cancellation_cutoff_min != null && minutesUntil < policy.cancellation_cutoff_min)
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                `Appointment can't be canceled less than ${policy.cancellation_cutoff_min} minutes before it starts`,
+                AppointmentPolicyService.Errors.CANCELLATION_CLOSED
+            )
+
+        const isLate = policy?.free_cancellation_min != null && minutesUntil < policy.free_cancellation_min
+        const fee_percent = isLate ? policy.late_cancellation_fee_percent : 0
+
+        const order = await this.retrieveOrderTotals_(appointment.order_id)
+        const amount = await this.getAppointmentAmount_(appointment, order)
+        const fee_amount = Math.round((amount * fee_percent) / 100)
+
+        // the other items of the order are still to be paid, the payment is captured and the appointment refunded
+        const release_authorization = fee_amount === 0 && this.isUncaptured_(order) && amount >= order.total
+        const refund_amount = release_authorization ? 0 : Math.max(0, amount - fee_amount)
+
+        return {
+            policy_id: policy?.id ?? null,
+            fee_percent,
+            amount,
+            fee_amount,
+            refund_amount,
+            release_authorization,
+        }
+    }
+
+    protected isUncaptured_(order: Order) {
+        return [PaymentStatus.NOT_PAID, PaymentStatus.AWAITING, PaymentStatus.REQUIRES_ACTION].includes(order.payment_status)
+    }
+
+    /**
+     * Check the appointment can be rescheduled now, throw a MedusaError when it can't
+     */
+    async checkReschedule(appointment: Appointment, now: Date = new Date()): Promise<void> {
+        const policy = await this.resolveByAppointment(appointment)
+        if (!policy) return
+
+        if (policy.reschedule_cutoff_min != null && this.minutesUntil_(appointment, now) < policy.reschedule_cutoff_min)
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                `Appointment can't be rescheduled less than ${policy.reschedule_cutoff_min} minutes before it starts`,
+                AppointmentPolicyService.Errors.RESCHEDULE_CLOSED
+            )
+
+        if (policy.max_reschedules != null && (appointment.reschedule_history?.length ?? 0) >= policy.max_reschedules)
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                `Appointment can't be rescheduled more than ${policy.max_reschedules} times`,
+                AppointmentPolicyService.Errors.RESCHEDULE_LIMIT
+            )
+    }
+
+    /**
+     * Refund the canceled appointment and keep the fee through the payment of the order
+     * an authorization of the appointment alone is canceled, otherwise the payment is captured when it's only authorized,
+     * then the amount of the appointment less the fee is refunded
+     */
+    async settleCancellation(appointment: Appointment, decision: CancellationDecision): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            if (decision.release_authorization) {
+                const { payments } = await this.order_.withTransaction(manager).retrieve(appointment.order_id, {
+                    relations: ["payments"],
+                })
+
+                for (const payment of payments.filter((x) => !x.canceled_at && !x.captured_at)) {
+                    await this.paymentProvider_.withTransaction(manager).cancelPayment(payment)
+                }
+                return
+            }
+
+            if (decision.fee_amount <= 0 && decision.refund_amount <= 0) return
+
+            const orderService = this.order_.withTransaction(manager)
+            let order = await this.retrieveOrderTotals_(appointment.order_id)
+
+            if (this.isUncaptured_(order)) {
+                await orderService.capturePayment(order.id)
+                order = await this.withTransaction(manager).retrieveOrderTotals_(order.id)
+            }
+
+            const refundAmount = Math.min(decision.refund_amount, order.refundable_amount)
+            if (refundAmount > 0) {
+                await orderService.createRefund(
+                    order.id,
+                    refundAmount,
+                    "other",
+                    decision.fee_amount > 0
+                        ? `Appointment #${appointment.display_id} canceled, cancellation fee ${decision.fee_percent}%`
+                        : `Appointment #${appointment.display_id} canceled`
+                )
+            }
+
+            if (decision.fee_amount > 0)
+                await this.eventBus_
+                    .withTransaction(manager)
+                    .emit(AppointmentPolicyService.Events.FEE_CHARGED, {
+                        id: decision.policy_id,
+                        appointment_id: appointment.id,
+                        order_id: order.id,
+                        fee_amount: decision.fee_amount,
+                        refund_amount: refundAmount,
+                    })
+        })
+    }
+}
+
+export default AppointmentPolicyService;
@@ -0,0 +1,180 @@
+import { EventBusService, TransactionBaseService } from "@medusajs/medusa";
+import { EntityManager, IsNull } from "typeorm";
+import AppointmentService from "./appointment";
+import ServiceSettingService from "./service-setting";
+import { AppointmentRepository } from "../repositories/appointment";
+import { Appointment, AppointmentStatus } from "../models/appointment";
+import { AppointmentReminderData, ReminderChannel } from "../types/appointment-reminder";
+
+type InjectedDependencies = {
+  manager: EntityManager;
+  appointmentRepository: typeof AppointmentRepository;
+  appointmentService: AppointmentService;
+  eventBusService: EventBusService;
+  serviceSettingService: ServiceSettingService;
+};
+
+type ReminderChannelConfig = {
+  event: string;
+  column: "notified_via_email_at" | "notified_via_sms_at";
+  offsetsSetting: string;
+  defaultOffsets: string;
+};
+
+/**
+ * Send the reminders of the scheduled appointments at the offsets of the settings, e.g. 24 h and 2 h before `from`
+ * the reminder is an event, Medusa's NotificationService pass it to the providers subscribed to it
+ * notified_via_email_at / notified_via_sms_at is stamped so an offset is only sent once
+ */
+class AppointmentReminderService extends TransactionBaseService {
+  protected manager_: EntityManager;
+  protected transactionManager_: EntityManager | undefined;
+
+  protected readonly appointmentRepository_: typeof AppointmentRepository;
+  protected readonly appointment_: AppointmentService;
+  protected readonly eventBus_: EventBusService;
+  protected readonly setting_: ServiceSettingService;
+
+  static readonly Events = {
+    EMAIL: "appointment.reminder_email",
+    SMS: "appointment.reminder_sms",
+  };
+
+  // settings of the reminders, the offsets are minutes separated by commas, empty turn the channel off
+  // the providers are the ids of the notification providers subscribed to the events, e.g. "sendgrid"
+  static readonly Settings = {
+    EMAIL_OFFSETS: "appointment_reminder_email_offsets_min",
+    SMS_OFFSETS: "appointment_reminder_sms_offsets_min",
+    EMAIL_PROVIDER: "appointment_reminder_email_provider",
+    SMS_PROVIDER: "appointment_reminder_sms_provider",
+  };
+
+  static readonly Channels: Record<ReminderChannel, ReminderChannelConfig> = {
+    [ReminderChannel.EMAIL]: {
+      event: AppointmentReminderService.Events.EMAIL,
+      column: "notified_via_email_at",
+      offsetsSetting: AppointmentReminderService.Settings.EMAIL_OFFSETS,
+      defaultOffsets: "1440",
+    },
+    [ReminderChannel.SMS]: {
+      event: AppointmentReminderService.Events.SMS,
+      column: "notified_via_sms_at",
+      offsetsSetting: AppointmentReminderService.Settings.SMS_OFFSETS,
+      defaultOffsets: "120",
+    },
+  };
+
+  constructor({
+    manager,
+    appointmentRepository,
+    appointmentService,
+    eventBusService,
+    serviceSettingService,
+  }: InjectedDependencies) {
+    super(arguments[0]);
+
+    this.manager_ = manager;
+    this.appointmentRepository_ = appointmentRepository;
+    this.appointment_ = appointmentService;
+    this.eventBus_ = eventBusService;
+    this.setting_ = serviceSettingService;
+  }
+
+  async getOffsets(channel: ReminderChannel): Promise<number[]> {
+    const config = AppointmentReminderService.Channels[channel];
+    const value = await this.setting_.getValue(config.offsetsSetting, config.defaultOffsets);
+
+    return (value ?? "")
+      .split(",")
+      .map((x) => parseInt(x))
+      .filter((x) => x > 0);
+  }
+
+  /**
+   * Get the offset of the reminder which is due now, null when there is none
+   * it's the last offset which passed and wasn't sent yet, the older ones are skipped so the customer get one reminder
+   * offsets which passed before the appointment was booked are skipped too
+   */
+  getDueOffset(
+    appointment: Appointment,
+    channel: ReminderChannel,
+    offsets: number[],
+    now: Date = new Date()
+  ): number | null {
+    if (!appointment.from) return null
+
+    const from = new Date(appointment.from).getTime();
+    const notifiedAt = appointment[AppointmentReminderService.Channels[channel].column];
+    const passed = offsets.filter((x) => from - x * 60000 <= now.getTime());
+    if (!passed.length) return null
+
+    const offset = Math.min(...passed);
+    const dueAt = from - offset * 60000;
+
+    if (notifiedAt && new Date(notifiedAt).getTime() >= dueAt) return null
+    if (appointment.created_at && new Date(appointment.created_at).getTime() > dueAt) return null
+
+    return offset;
+  }
+
+  /**
+   * Stamp the appointment and emit the reminder event, nothing is done when an other run stamped it first
+   * @return true when the reminder was sent
+   */
+  protected async send_(
+    appointment: Appointment,
+    channel: ReminderChannel,
+    offset: number,
+    now: Date
+  ): Promise<boolean> {
+    const { event, column } = AppointmentReminderService.Channels[channel];
+
+    return await this.atomicPhase_(async (manager) => {
+      const appointmentRepo = manager.getCustomRepository(this.appointmentRepository_);
+
+      const result = await appointmentRepo.update(
+        { id: appointment.id, [column]: appointment[column] ?? IsNull() },
+        { [column]: now }
+      );
+      if (!result.affected) return false
+
+      const data: AppointmentReminderData = await this.appointment_
+        .withTransaction(manager)
+        .buildEventData(appointment.id, { channel, offset_min: offset });
+
+      await this.eventBus_.withTransaction(manager).emit(event, data);
+
+      return true;
+    });
+  }
+
+  /**
+   * Send the reminders which are due, called by the appointment-reminder cron job
+   * @return count of sent reminders
+   */
+  async sendDue(now: Date = new Date()): Promise<number> {
+    let count = 0;
+
+    for (const channel of Object.values(ReminderChannel)) {
+      const offsets = await this.getOffsets(channel);
+      if (!offsets.length) continue
+
+      const until = new Date(now.getTime() + Math.max(...offsets) * 60000);
+      const [appointments] = await this.appointment_.list(
+        { status: AppointmentStatus.SCHEDULED, from: { gt: now, lte: until } },
+        {}
+      );
+
+      for (const appointment of appointments) {
+        const offset = this.getDueOffset(appointment, channel, offsets, now);
+        if (offset === null) continue
+
+        if (await this.send_(appointment, channel, offset, now)) count++;
+      }
+    }
+
+    return count;
+  }
+}
+
+export default AppointmentReminderService;
@@ -1,17 +1,32 @@
 import {
+  CartService,
   EventBusService,
   LineItem,
+  Order,
   OrderService,
+  ProductVariant,
+  ProductVariantService,
   TransactionBaseService,
 } from "@medusajs/medusa";
 import { formatException } from "@medusajs/medusa/dist/utils/exception-formatter";
 import { buildQuery } from "@medusajs/medusa/dist/utils/build-query";
 import { MedusaError } from "medusa-core-utils";
-import { EntityManager } from "typeorm";
+import { EntityManager, In } from "typeorm";
 import { AppointmentRepository } from "../repositories/appointment";
+import { AppointmentItemRepository } from "../repositories/appointment-item";
 import { Appointment, AppointmentStatus } from "../models/appointment";
 import {
+  AppointmentItemInput,
+  AppointmentRescheduleEntry,
+  CancelAppointmentInput,
+  CheckSlotTimeInput,
+  CreateAppointmentItemInput,
+  MakeAppointmentBooking,
+  MakeAppointmentInput,
   CreateAppointmentInput,
+  RescheduleAppointmentInput,
+  ServiceTime,
+  SlotTimeCheck,
   UpdateAppointmentInput,
 } from "../types/appointment";
 import { setMetadata } from "@medusajs/medusa/dist/utils";
@@ -19,16 +34,28 @@ import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common";
 import CalendarService from "./calendar";
 import CalendarTimeperiodService from "./calendar-timeperiod";
 import LocationService from "./location";
-import { divideTimes } from "../utils/date-utils";
-import { includes } from "lodash";
+import DivisionService from "./division";
+import AppointmentPolicyService from "./appointment-policy";
+import { isIntervalAvailable, isSlotStartAligned } from "../utils/availability";
+import { renderICalendar } from "../utils/ical";
+import { Availability, SlotBuffer } from "../types/location";
+import { CalendarTimeperiod } from "../models/calendar-timeperiod";
+import { CancellationDecision } from "../types/appointment-policy";
+import { AppointmentEventData } from "../types/appointment-notification";
+import { Location } from "../models/location";
 
 type InjectedDependencies = {
   manager: EntityManager;
   appointmentRepository: typeof AppointmentRepository;
+  appointmentItemRepository: typeof AppointmentItemRepository;
   calendarService: CalendarService;
   calendarTimeperiodService: CalendarTimeperiodService;
   locationService: LocationService;
+  divisionService: DivisionService;
+  appointmentPolicyService: AppointmentPolicyService;
   orderService: OrderService;
+  cartService: CartService;
+  productVariantService: ProductVariantService;
   eventBusService: EventBusService;
 };
 
@@ -37,37 +64,97 @@ class AppointmentService extends TransactionBaseService {
   protected transactionManager_: EntityManager | undefined;
 
   protected readonly appointmentRepository_: typeof AppointmentRepository;
+  protected readonly appointmentItemRepository_: typeof AppointmentItemRepository;
   protected readonly eventBus_: EventBusService;
   protected readonly calendar_: CalendarService;
   protected readonly calendarTimeperiod_: CalendarTimeperiodService;
   protected readonly location_: LocationService;
+  protected readonly division_: DivisionService;
+  protected readonly appointmentPolicy_: AppointmentPolicyService;
   protected readonly order_: OrderService;
+  protected readonly cart_: CartService;
+  protected readonly productVariant_: ProductVariantService;
 
   static readonly IndexName = `appointments`;
   static readonly Events = {
     UPDATED: "appointment.updated",
     CREATED: "appointment.created",
     DELETED: "appointment.deleted",
+    CONFIRMED: "appointment.confirmed",
+    STARTED: "appointment.started",
+    FINISHED: "appointment.finished",
+    CANCELED: "appointment.canceled",
+    RESCHEDULED: "appointment.rescheduled",
+    SCHEDULED: "appointment.scheduled",
+    NO_SHOW: "appointment.no_show",
+  };
+  // status an appointment can move to from its current status, canceled and finished are final
+  static readonly StatusTransitions: Record<AppointmentStatus, AppointmentStatus[]> = {
+    [AppointmentStatus.DRAFT]: [
+      AppointmentStatus.SCHEDULED,
+      AppointmentStatus.PENDING,
+      AppointmentStatus.REQUIRES_ACTION,
+      AppointmentStatus.CANCELED,
+    ],
+    [AppointmentStatus.PENDING]: [
+      AppointmentStatus.SCHEDULED,
+      AppointmentStatus.REQUIRES_ACTION,
+      AppointmentStatus.CANCELED,
+    ],
+    [AppointmentStatus.REQUIRES_ACTION]: [
+      AppointmentStatus.SCHEDULED,
+      AppointmentStatus.PENDING,
+      AppointmentStatus.CANCELED,
+    ],
+    [AppointmentStatus.SCHEDULED]: [
+      AppointmentStatus.ON_PROGRESS,
+      AppointmentStatus.RESCHEDULE,
+      AppointmentStatus.CANCELED,
+      AppointmentStatus.NO_SHOW,
+    ],
+    [AppointmentStatus.RESCHEDULE]: [
+      AppointmentStatus.SCHEDULED,
+      AppointmentStatus.CANCELED,
+    ],
+    [AppointmentStatus.ON_PROGRESS]: [AppointmentStatus.FINISHED],
+    [AppointmentStatus.FINISHED]: [],
+    [AppointmentStatus.CANCELED]: [],
+    [AppointmentStatus.NO_SHOW]: [],
+  };
+  static readonly BookingRuleErrors = {
+    NOTICE_TOO_SHORT: "booking_notice_too_short",
+    SAME_DAY_CLOSED: "booking_same_day_closed",
+    HORIZON_EXCEEDED: "booking_horizon_exceeded",
   };
 
   constructor({
     manager,
     appointmentRepository,
+    appointmentItemRepository,
     eventBusService,
     calendarService,
     calendarTimeperiodService,
     locationService,
+    divisionService,
+    appointmentPolicyService,
     orderService,
+    cartService,
+    productVariantService,
   }: InjectedDependencies) {
     super(arguments[0]);
 
     this.manager_ = manager;
     this.appointmentRepository_ = appointmentRepository;
+    this.appointmentItemRepository_ = appointmentItemRepository;
     this.eventBus_ = eventBusService;
     this.calendar_ = calendarService;
     this.calendarTimeperiod_ = calendarTimeperiodService;
     this.location_ = locationService;
+    this.division_ = divisionService;
+    this.appointmentPolicy_ = appointmentPolicyService;
     this.order_ = orderService;
+    this.cart_ = cartService;
+    this.productVariant_ = productVariantService;
   }
 
   async list(
@@ -152,6 +239,8 @@ class AppointmentService extends TransactionBaseService {
 
       await appointmentRepo.softRemove(appointment);
 
+      await this.withTransaction(manager).releaseTimeperiod_(appointment);
+
       await this.eventBus_
         .withTransaction(manager)
         .emit(AppointmentService.Events.DELETED, {
@@ -178,6 +267,9 @@ class AppointmentService extends TransactionBaseService {
 
       const { metadata, ...rest } = update;
 
+      if (rest.status && rest.status !== appointment.status)
+        this.assertTransition_(appointment, rest.status);
+
       if (metadata) {
         appointment.metadata = setMetadata(appointment, metadata);
       }
@@ -200,6 +292,514 @@ class AppointmentService extends TransactionBaseService {
     });
   }
 
+  canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+    return AppointmentService.StatusTransitions[from]?.includes(to) ?? false;
+  }
+
+  protected assertTransition_(appointment: Appointment, to: AppointmentStatus) {
+    if (!this.canTransition(appointment.status, to))
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Appointment with status ${appointment.status} can't be changed to ${to}`,
+        "400"
+      );
+  }
+
+  /**
+   * Move an appointment to another status, the transition must be in StatusTransitions
+   * @param appointmentId appointment to change
+   * @param to the new status
+   * @param event event emitted after the change
+   * @param update other fields saved with the status
+   */
+  protected async transition_(
+    appointmentId: string,
+    to: AppointmentStatus,
+    event: string,
+    update: Omit<UpdateAppointmentInput, "status"> = {}
+  ): Promise<Appointment> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointmentRepo = manager.getCustomRepository(
+        this.appointmentRepository_
+      );
+
+      const appointment = await this.retrieve(appointmentId, {});
+      const from = appointment.status;
+
+      this.assertTransition_(appointment, to);
+
+      const { metadata, ...rest } = update;
+
+      if (metadata) {
+        appointment.metadata = setMetadata(appointment, metadata);
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        if (typeof value !== `undefined`) {
+          appointment[key] = value;
+        }
+      }
+
+      appointment.status = to;
+
+      // the calendar of the customer remove the event with a higher sequence
+      if (to === AppointmentStatus.CANCELED) appointment.ics_sequence += 1;
+
+      const result = await appointmentRepo.save(appointment);
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(event, await this.withTransaction(manager).buildEventData(result.id, { from, to }));
+      return result;
+    });
+  }
+
+  /**
+   * Confirm the booking, a draft / pending appointment become scheduled
+   * a scheduled appointment which is not confirmed yet keep its status
+   */
+  async confirm(appointmentId: string): Promise<Appointment> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointment = await this.retrieve(appointmentId, {});
+
+      if (appointment.status === AppointmentStatus.SCHEDULED) {
+        if (appointment.is_confirmed)
+          throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            `Appointment with ${appointmentId} is already confirmed`,
+            "400"
+          );
+
+        const appointmentRepo = manager.getCustomRepository(
+          this.appointmentRepository_
+        );
+        appointment.is_confirmed = true;
+        const result = await appointmentRepo.save(appointment);
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(
+            AppointmentService.Events.CONFIRMED,
+            await this.withTransaction(manager).buildEventData(result.id, {
+              from: result.status,
+              to: result.status,
+            })
+          );
+        return result;
+      }
+
+      const result = await this.withTransaction(manager).transition_(
+        appointmentId,
+        AppointmentStatus.SCHEDULED,
+        AppointmentService.Events.CONFIRMED,
+        { is_confirmed: true }
+      );
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(
+          AppointmentService.Events.SCHEDULED,
+          await this.withTransaction(manager).buildEventData(result.id)
+        );
+      return result;
+    });
+  }
+
+  async start(appointmentId: string): Promise<Appointment> {
+    return await this.transition_(
+      appointmentId,
+      AppointmentStatus.ON_PROGRESS,
+      AppointmentService.Events.STARTED
+    );
+  }
+
+  async finish(appointmentId: string): Promise<Appointment> {
+    return await this.transition_(
+      appointmentId,
+      AppointmentStatus.FINISHED,
+      AppointmentService.Events.FINISHED
+    );
+  }
+
+  // the customer didn't come, the slot stay blocked like a finished appointment
+  async markNoShow(appointmentId: string): Promise<Appointment> {
+    return await this.transition_(
+      appointmentId,
+      AppointmentStatus.NO_SHOW,
+      AppointmentService.Events.NO_SHOW
+    );
+  }
+
+  /**
+   * Cancel the appointment and release its slot in the calendar
+   * @param appointmentId appointment to cancel
+   * @param input who canceled and why
+   */
+  async cancel(
+    appointmentId: string,
+    input: CancelAppointmentInput = {}
+  ): Promise<Appointment> {
+    return await this.atomicPhase_(async (manager) => {
+      // the policy decide if the appointment can still be canceled and the fee
+      let decision: CancellationDecision | null = null;
+      if (input.apply_policy) {
+        const appointment = await this.retrieve(appointmentId, {});
+        this.assertTransition_(appointment, AppointmentStatus.CANCELED);
+
+        decision = await this.appointmentPolicy_
+          .withTransaction(manager)
+          .checkCancellation(appointment);
+      }
+
+      const result = await this.withTransaction(manager).transition_(
+        appointmentId,
+        AppointmentStatus.CANCELED,
+        AppointmentService.Events.CANCELED,
+        {
+          canceled_at: new Date(),
+          canceled_by: input.canceled_by ?? null,
+          cancellation_reason: input.reason ?? null,
+          ...(decision ? { metadata: { cancellation: decision } } : {}),
+        }
+      );
+
+      await this.withTransaction(manager).releaseTimeperiod_(result);
+
+      if (decision)
+        await this.appointmentPolicy_
+          .withTransaction(manager)
+          .settleCancellation(result, decision);
+
+      return result;
+    });
+  }
+
+  /**
+   * Cancel the appointments of an order which can still be canceled, used when the order is canceled or refunded
+   * @return the canceled appointments
+   */
+  async cancelByOrderId(
+    orderId: string,
+    input: CancelAppointmentInput = {}
+  ): Promise<Appointment[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const [appointments] = await this.withTransaction(manager).list(
+        { order_id: orderId },
+        {}
+      );
+
+      const canceled: Appointment[] = [];
+      for (const appointment of appointments) {
+        if (!this.canTransition(appointment.status, AppointmentStatus.CANCELED))
+          continue;
+
+        canceled.push(
+          await this.withTransaction(manager).cancel(appointment.id, input)
+        );
+      }
+
+      return canceled;
+    });
+  }
+
+  /**
+   * Fulfill the items of the order which are not fulfilled yet, used when the appointment is finished
+   */
+  async fulfillOrder(appointmentId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointment = await this.retrieve(appointmentId, { relations: ["items"] });
+      const order = await this.order_
+        .withTransaction(manager)
+        .retrieve(appointment.order_id, { relations: ["items"] });
+
+      // the booked items of the appointment, every item of the order for an appointment without items
+      const booked = new Map(appointment.items?.map((x) => [x.line_item_id, x.quantity]));
+
+      const items = order.items
+        .filter((x) => !booked.size || booked.has(x.id))
+        .map((x) => ({
+          item_id: x.id,
+          quantity: Math.min(
+            booked.get(x.id) ?? x.quantity,
+            x.quantity - (x.fulfilled_quantity ?? 0)
+          ),
+        }))
+        .filter((x) => x.quantity > 0);
+
+      if (!items.length) return;
+
+      await this.order_.withTransaction(manager).createFulfillment(order.id, items, {
+        metadata: { appointment_id: appointment.id },
+      });
+    });
+  }
+
+  /**
+   * Move the appointment to another slot, the blocked timeperiod is moved with it in the same transaction
+   * the previous time is kept in reschedule_history
+   * @param appointmentId a scheduled appointment or one waiting for a reschedule
+   * @param input new slot time and optionally another calendar of the same location
+   */
+  async reschedule(
+    appointmentId: string,
+    input: RescheduleAppointmentInput
+  ): Promise<Appointment> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointmentRepo = manager.getCustomRepository(
+        this.appointmentRepository_
+      );
+
+      const appointment = await this.retrieve(appointmentId, {
+        relations: ["order", "order.items", "items"],
+      });
+      const previousStatus = appointment.status;
+
+      if (
+        ![AppointmentStatus.SCHEDULED, AppointmentStatus.RESCHEDULE].includes(
+          appointment.status
+        )
+      )
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Appointment with status ${appointment.status} can't be rescheduled`,
+          "400"
+        );
+
+      if (input.apply_policy)
+        await this.appointmentPolicy_
+          .withTransaction(manager)
+          .checkReschedule(appointment);
+
+      const timeperiodId = appointment.metadata?.calendar_timeperiod_id as string;
+      const location_id = (appointment.metadata?.location as { id?: string })?.id;
+      if (!timeperiodId || !location_id)
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Appointment with ${appointmentId} isn't booked in a calendar`,
+          "400"
+        );
+
+      const timeperiod = await this.calendarTimeperiod_
+        .withTransaction(manager)
+        .retrieve(timeperiodId, {});
+      const calendar_id = input.calendar_id ?? timeperiod.calendar_id;
+
+      // wait for the other bookings, always in the same order so two reschedules between the same calendars don't deadlock
+      for (const id of [...new Set([timeperiod.calendar_id, calendar_id])].sort()) {
+        await this.calendar_.withTransaction(manager).retrieveForUpdate(id);
+      }
+
+      // the appointment don't block its own slot, it can be moved by a few minutes
+      const { slot_time_until, buffer, blocked_from, blocked_until } =
+        await this.withTransaction(manager).checkSlotTime_({
+          location_id,
+          calendar_id,
+          slot_time: input.slot_time,
+          serviceTime: this.getAppointmentServiceTime(appointment, appointment.order),
+          excludeTimeperiodIds: [timeperiod.id],
+        });
+
+      // a SlotConflictError is thrown when another booking took the slot
+      await this.calendarTimeperiod_.withTransaction(manager).update(timeperiod.id, {
+        calendar_id,
+        from: blocked_from,
+        to: blocked_until,
+        metadata: {
+          buffer_before_min: buffer.before,
+          buffer_after_min: buffer.after,
+        },
+      });
+
+      const previous: AppointmentRescheduleEntry = {
+        from: appointment.from ? new Date(appointment.from).toISOString() : null,
+        to: appointment.to ? new Date(appointment.to).toISOString() : null,
+        calendar_id: timeperiod.calendar_id,
+        rescheduled_at: new Date().toISOString(),
+        rescheduled_by: input.rescheduled_by ?? null,
+      };
+
+      appointment.reschedule_history = [
+        ...(appointment.reschedule_history ?? []),
+        previous,
+      ];
+      appointment.from = new Date(input.slot_time);
+      appointment.to = slot_time_until;
+      appointment.status = AppointmentStatus.SCHEDULED;
+      appointment.metadata = setMetadata(appointment, { calendar_id });
+      appointment.ics_sequence += 1;
+
+      const result = await appointmentRepo.save(appointment);
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(
+          AppointmentService.Events.RESCHEDULED,
+          await this.withTransaction(manager).buildEventData(result.id, {
+            from: previousStatus,
+            to: result.status,
+            previous_from: previous.from,
+            previous_to: previous.to,
+          })
+        );
+      return result;
+    });
+  }
+
+  // remove the blocked timeperiod of the appointment, so the slot is available again
+  protected async releaseTimeperiod_(appointment: Appointment): Promise<void> {
+    const timeperiodId = appointment.metadata?.calendar_timeperiod_id as string;
+    if (!timeperiodId) return;
+
+    return await this.atomicPhase_(async (manager) => {
+      await this.calendarTimeperiod_.withTransaction(manager).delete(timeperiodId);
+    });
+  }
+
+  /**
+   * Build the payload of the lifecycle events, with the customer, location, calendar, times and order
+   * so the notification providers can render their templates without querying again
+   * @param appointmentId appointment of the event
+   * @param extra other fields of the event, like the status before and after a transition
+   */
+  async buildEventData<T extends Record<string, unknown>>(
+    appointmentId: string,
+    extra: T = {} as T
+  ): Promise<AppointmentEventData & T> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointment = await this.withTransaction(manager).retrieve(appointmentId, {});
+
+      const order = appointment.order_id
+        ? await this.order_.withTransaction(manager).retrieve(appointment.order_id, {
+            relations: ["customer", "shipping_address"],
+          })
+        : null;
+
+      // the location is kept in the appointment when it's booked
+      const location = appointment.metadata?.location as Location | undefined;
+
+      // appointments booked before calendar_id was kept in the metadata use their timeperiod
+      let calendarId = appointment.metadata?.calendar_id as string | undefined;
+      const timeperiodId = appointment.metadata?.calendar_timeperiod_id as string | undefined;
+      if (!calendarId && timeperiodId) {
+        const [timeperiod] = await this.calendarTimeperiod_
+          .withTransaction(manager)
+          .list({ id: timeperiodId }, {});
+        calendarId = timeperiod?.calendar_id;
+      }
+
+      const [[calendar]] = calendarId
+        ? await this.calendar_.withTransaction(manager).list({ id: calendarId }, {})
+        : [[]];
+
+      return {
+        ...extra,
+        id: appointment.id,
+        appointment: {
+          id: appointment.id,
+          display_id: appointment.display_id,
+          status: appointment.status,
+          is_confirmed: appointment.is_confirmed,
+          code: appointment.code,
+          from: appointment.from,
+          to: appointment.to,
+          timezone: calendar?.timezone || location?.timezone || "UTC",
+        },
+        customer: order
+          ? {
+              id: order.customer_id ?? null,
+              email: order.email ?? order.customer?.email ?? null,
+              first_name: order.customer?.first_name ?? order.shipping_address?.first_name ?? null,
+              last_name: order.customer?.last_name ?? order.shipping_address?.last_name ?? null,
+              phone: order.customer?.phone ?? order.shipping_address?.phone ?? null,
+            }
+          : null,
+        location: location
+          ? {
+              id: location.id,
+              title: location.title ?? null,
+              address_1: location.address_1 ?? null,
+              address_2: location.address_2 ?? null,
+              city: location.city ?? null,
+              province: location.province ?? null,
+              postal_code: location.postal_code ?? null,
+              country_code: location.country_code ?? null,
+              phone: location.phone ?? null,
+            }
+          : null,
+        calendar: calendar ? { id: calendar.id, name: calendar.name } : null,
+        order: order ? { id: order.id, display_id: order.display_id } : null,
+      };
+    });
+  }
+
+  /**
+   * Render the appointment as an iCalendar file, the uid stay the same so a new file update the event
+   * in the calendar of the customer, a canceled appointment is published with STATUS:CANCELLED
+   * @param appointmentId appointment to render
+   */
+  async renderICalendar(appointmentId: string): Promise<string> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointment = await this.withTransaction(manager).retrieve(appointmentId, {
+        relations: ["items", "order", "order.items"],
+      });
+
+      if (!appointment.from || !appointment.to)
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Appointment with ${appointmentId} isn't booked in a calendar`,
+          "400"
+        );
+
+      const services = this.getAppointmentServiceNames(appointment);
+
+      const location = appointment.metadata?.location as Location | undefined;
+      const address = location
+        ? [
+            location.title,
+            location.address_1,
+            location.address_2,
+            [location.postal_code, location.city].filter(Boolean).join(" "),
+            location.province,
+            location.country_code?.toUpperCase(),
+          ]
+            .filter(Boolean)
+            .join(", ")
+        : null;
+
+      const latitude = parseFloat(location?.latitude);
+      const longitude = parseFloat(location?.longitude);
+
+      const isCanceled = appointment.status === AppointmentStatus.CANCELED;
+      const isTentative = [
+        AppointmentStatus.DRAFT,
+        AppointmentStatus.PENDING,
+        AppointmentStatus.REQUIRES_ACTION,
+      ].includes(appointment.status);
+
+      return renderICalendar(
+        [
+          {
+            uid: `${appointment.id}@medusa-plugin-service`,
+            sequence: appointment.ics_sequence,
+            start: appointment.from,
+            end: appointment.to,
+            summary: [services.join(", ") || "Appointment", location?.title].filter(Boolean).join(" - "),
+            description: [
+              `Appointment #${appointment.display_id}`,
+              appointment.order ? `Order #${appointment.order.display_id}` : null,
+              ...services,
+            ]
+              .filter(Boolean)
+              .join("\n"),
+            location: address,
+            geo: isNaN(latitude) || isNaN(longitude) ? null : { latitude, longitude },
+            status: isCanceled ? "CANCELLED" : isTentative ? "TENTATIVE" : "CONFIRMED",
+          },
+        ]
+      );
+    });
+  }
+
   async getCurrent(division: string) {
     const manager = this.manager_;
 
@@ -266,154 +866,553 @@ class AppointmentService extends TransactionBaseService {
     return true;
   }
 
-  async isOrderHaveAppointment(orderId: string) {
-    const [appointment, count] = await this.list({ order_id: orderId });
-    let realCount = 0;
-    for (const x of appointment) {
-      if (x.status == AppointmentStatus.SCHEDULED) realCount += 1;
-    }
-    if (realCount > 0) return true;
-    return false;
-  }
+  // check if from - to of the appointment plus the buffer fits inside the available intervals and starts on the slot grid of the calendar
+  isSlotTimeAvailable(
+    from: Date,
+    to: Date,
+    availability: Availability,
+    buffer: SlotBuffer = { before: 0, after: 0 }
+  ) {
+    const isAligned = isSlotStartAligned(new Date(from), availability.timezone, {
+      interval: availability.slot_interval_min,
+      alignment: availability.slot_alignment_min,
+    });
+
+    if (!isAligned) return false;
 
-  // calculate from and to appointment into slot time and check with available slot time
-  isSlotTimeAvailable(from: Date, to: Date, availableSlotTime) {
-    const divideBy = 5;
-    const selectedTimeSlots = divideTimes(
-      new Date(from),
-      new Date(to),
-      divideBy
+    const { earliest_start, latest_start } = availability.booking_window;
+    if (new Date(from) < earliest_start) return false;
+    if (latest_start && new Date(from) > latest_start) return false;
+
+    return isIntervalAvailable(
+      new Date(new Date(from).getTime() - buffer.before * 60 * 1000),
+      new Date(new Date(to).getTime() + buffer.after * 60 * 1000),
+      availability.intervals
     );
+  }
 
-    for (const dateEntry of Object.entries(selectedTimeSlots)) {
-      const [dateKey, dateTimeSlots] = dateEntry;
+  // throw an error with the code of the booking rule that the slot time breaks
+  checkBookingRules(slotTime: Date, availability: Availability) {
+    const { notice_until, same_day_closed_until, latest_start } =
+      availability.booking_window;
+    const start = new Date(slotTime);
+
+    if (same_day_closed_until && start < same_day_closed_until)
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Booking for today is closed since ${availability.same_day_cutoff}`,
+        AppointmentService.BookingRuleErrors.SAME_DAY_CLOSED
+      );
 
-      // because availableSlotTime is object, then we find slotTime date with dateKey
-      let availableSlotTime_ = availableSlotTime.filter(
-        (slotTime) => slotTime.date == dateKey
+    if (start < notice_until)
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Appointment must be booked at least ${availability.min_notice_min} minutes in advance`,
+        AppointmentService.BookingRuleErrors.NOTICE_TOO_SHORT
       );
-      availableSlotTime_ = availableSlotTime_[0].slot_times;
 
-      // @ts-ignore
-      for (const dateTimeSlot of dateTimeSlots) {
-        // compare selectedTimeSlots with availableSlotTime_, if missing one in availableSlotTime then it will be return to false
-        if (includes(availableSlotTime_, dateTimeSlot)) continue;
-        return false;
+    if (latest_start && start > latest_start)
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Appointment can't be booked more than ${availability.max_horizon_days} days in advance`,
+        AppointmentService.BookingRuleErrors.HORIZON_EXCEEDED
+      );
+  }
+
+  // duration_min of the variant, if not set then duration_min of the product
+  getVariantDurationMin(variant: ProductVariant): number {
+    const variant_time: string = variant.metadata?.duration_min as string;
+    const product_time: string = variant.product?.metadata
+      ?.duration_min as string;
+
+    if (+variant_time > 0) return +variant_time;
+    if (+product_time > 0) return +product_time;
+
+    return 0;
+  }
+
+  // buffer_before_min or buffer_after_min of the variant, if not set then of the product
+  getVariantBufferMin(
+    variant: ProductVariant,
+    key: "buffer_before_min" | "buffer_after_min"
+  ): number | undefined {
+    const variant_buffer = variant.metadata?.[key] as string;
+    const product_buffer = variant.product?.metadata?.[key] as string;
+
+    if (variant_buffer != null && variant_buffer !== "" && +variant_buffer >= 0)
+      return +variant_buffer;
+    if (product_buffer != null && product_buffer !== "" && +product_buffer >= 0)
+      return +product_buffer;
+
+    return undefined;
+  }
+
+  // total duration of the services, the buffer is the biggest one set on the services
+  getVariantsServiceTime(variants: ProductVariant[]): ServiceTime {
+    const serviceTime: ServiceTime = { duration_min: 0 };
+
+    for (const variant of variants) {
+      // a product without duration_min is not a service
+      if (!variant || !(this.getVariantDurationMin(variant) > 0)) continue;
+
+      serviceTime.duration_min += this.getVariantDurationMin(variant);
+
+      for (const key of ["buffer_before_min", "buffer_after_min"] as const) {
+        const buffer = this.getVariantBufferMin(variant, key);
+        if (buffer === undefined) continue;
+
+        serviceTime[key] = Math.max(serviceTime[key] ?? 0, buffer);
       }
     }
 
-    return true;
+    return serviceTime;
   }
 
-  async makeAppointment(makeAppointmentInput: {
-    order_id: string;
-    location_id: string;
-    calendar_id: string;
-    slot_time: Date;
-  }) {
-    const { order_id, location_id, calendar_id, slot_time } =
-      makeAppointmentInput;
+  // every unit of the item is counted, like the same service booked twice
+  getItemsServiceTime(
+    items: Pick<LineItem, "variant" | "quantity">[]
+  ): ServiceTime {
+    return this.getVariantsServiceTime(
+      items.flatMap((x) =>
+        new Array<ProductVariant>(x.quantity ?? 1).fill(x.variant)
+      )
+    );
+  }
+
+  isServiceItem(item: LineItem): boolean {
+    return !!item.variant && this.getVariantDurationMin(item.variant) > 0;
+  }
+
+  // service time of the booked items, an appointment made before AppointmentItem use every item of the order
+  getAppointmentServiceTime(appointment: Appointment, order: Order): ServiceTime {
+    if (!appointment.items?.length) return this.getItemsServiceTime(order.items);
+
+    return this.getItemsServiceTime(
+      appointment.items.map((x) => ({
+        variant: order.items.find((i) => i.id === x.line_item_id)?.variant,
+        quantity: x.quantity,
+      }))
+    );
+  }
+
+  // titles of the booked services, the appointment need its items and order.items
+  getAppointmentServiceNames(appointment: Appointment): string[] {
+    // an appointment made before AppointmentItem use every service of the order
+    const items = appointment.items?.length
+      ? appointment.items
+          .map((x) => appointment.order?.items.find((i) => i.id === x.line_item_id))
+          .filter(Boolean)
+      : (appointment.order?.items ?? []).filter((x) => this.isServiceItem(x));
 
-    // check calendar exists or not
-    await this.calendar_.retrieve(calendar_id, {});
+    return [...new Set(items.map((x) => x.title))];
+  }
+
+  /**
+   * Get the quantity of each item of the order which is already booked in an appointment which isn't canceled
+   * @param orderItems items of the order
+   * @param excludeAppointmentId an appointment whose items are not counted
+   */
+  async getBookedQuantities(
+    orderItems: LineItem[],
+    excludeAppointmentId?: string
+  ): Promise<Map<string, number>> {
+    return await this.atomicPhase_(async (manager) => {
+      const appointmentItemRepo = manager.getCustomRepository(
+        this.appointmentItemRepository_
+      );
+      const booked = new Map<string, number>();
+      if (!orderItems.length) return booked;
 
-    // check if order already have appointment
-    const isOrderHaveAppointment = await this.isOrderHaveAppointment(order_id);
-    if (isOrderHaveAppointment)
+      const items = await appointmentItemRepo.find({
+        where: { line_item_id: In(orderItems.map((x) => x.id)) },
+        relations: ["appointment"],
+      });
+
+      for (const item of items) {
+        if (!item.appointment || item.appointment.deleted_at) continue;
+        if (item.appointment.status === AppointmentStatus.CANCELED) continue;
+        if (item.appointment_id === excludeAppointmentId) continue;
+
+        booked.set(item.line_item_id, (booked.get(item.line_item_id) ?? 0) + item.quantity);
+      }
+
+      return booked;
+    });
+  }
+
+  /**
+   * Pick the service items of the order which are booked in a new appointment
+   * @param order order with items
+   * @param input items and quantity to book, every service item which isn't booked yet when not set
+   */
+  async resolveAppointmentItems(
+    order: Order,
+    input?: AppointmentItemInput[]
+  ): Promise<CreateAppointmentItemInput[]> {
+    const booked = await this.getBookedQuantities(order.items);
+    const remaining = (item: LineItem) => item.quantity - (booked.get(item.id) ?? 0);
+
+    const selected = input?.length
+      ? input.map((x) => {
+          const item = order.items.find((i) => i.id === x.item_id);
+          if (!item)
+            throw new MedusaError(
+              MedusaError.Types.INVALID_DATA,
+              `Item with ${x.item_id} doesn't belong to Order with ${order.id}`,
+              "400"
+            );
+          if (!this.isServiceItem(item))
+            throw new MedusaError(
+              MedusaError.Types.INVALID_DATA,
+              `Item with ${x.item_id} is not a service, it doesn't have duration_min`,
+              "400"
+            );
+          return { item, quantity: x.quantity ?? remaining(item) };
+        })
+      : order.items
+          .filter((x) => this.isServiceItem(x) && remaining(x) > 0)
+          .map((item) => ({ item, quantity: remaining(item) }));
+
+    if (!selected.length)
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
-        "Order Already Have Appointment !",
+        `Order with ${order.id} doesn't have any service left to book`,
         "400"
       );
 
-    const location = await this.location_.retrieve(location_id, {
-      relations: ["country", "company"],
-    });
-    const order = await this.order_.retrieve(order_id, {
-      relations: ["items"],
-    });
+    // the same item can be picked twice in the input
+    const picked = new Map<string, number>();
+    for (const { item, quantity } of selected) {
+      picked.set(item.id, (picked.get(item.id) ?? 0) + quantity);
+
+      if (quantity <= 0 || picked.get(item.id) > remaining(item))
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Only ${Math.max(remaining(item), 0)} of item with ${item.id} can still be booked`,
+          "400"
+        );
+    }
+
+    return selected.map(({ item, quantity }) => ({
+      line_item_id: item.id,
+      quantity,
+      duration_min: this.getItemsServiceTime([{ variant: item.variant, quantity }]).duration_min,
+    }));
+  }
 
-    // calculated duration_min on product general or variant
-    const items_list: LineItem[] = order.items;
-    let totalDurationMin: number = 0;
+  async getServiceTimeByCartId(cartId: string): Promise<ServiceTime> {
+    const cart = await this.cart_.retrieve(cartId, { relations: ["items"] });
 
-    for (const x of items_list) {
-      let duration_min: number = 0;
-      const variant_time: string = x.variant.metadata?.duration_min as string;
-      const product_time: string = x.variant.product.metadata
-        ?.duration_min as string;
+    return this.getItemsServiceTime(cart.items);
+  }
 
-      if (+variant_time > 0) {
-        duration_min = +variant_time;
-      } else {
-        duration_min = +product_time;
-      }
+  async getServiceTimeByVariantIds(variantIds: string[]): Promise<ServiceTime> {
+    const variants: ProductVariant[] = [];
 
-      totalDurationMin += duration_min;
+    // retrieve one by one, so the same variant can be counted more than once
+    for (const variantId of variantIds) {
+      variants.push(
+        await this.productVariant_.retrieve(variantId, {
+          relations: ["product"],
+        })
+      );
     }
 
-    // calculated slot_time + duration_min items
-    const slot_time_until = new Date(
-      new Date(slot_time).getTime() + totalDurationMin * 60 * 1000
-    );
+    return this.getVariantsServiceTime(variants);
+  }
 
-    // get slot time
-    const today_time_slot = await this.location_.getSlotTime_(
-      calendar_id,
-      location_id,
-      slot_time,
-      slot_time_until
-    );
+  /**
+   * Get the slot hold which is turned into the appointment
+   * an expired hold may already be released, then the slot is checked like without hold
+   * @param holdId hold_id of cart.context.data_make_appointment
+   * @param cartId the hold must be made by this cart
+   */
+  protected async retrieveHold_(
+    holdId: string | undefined,
+    calendarId: string,
+    cartId: string
+  ): Promise<CalendarTimeperiod | null> {
+    if (!holdId) return null;
 
-    // is slot time available
-    const isSlotTimeAvailable = this.isSlotTimeAvailable(
-      slot_time,
-      slot_time_until,
-      today_time_slot
-    );
-    if (!isSlotTimeAvailable)
-      throw new MedusaError(
-        MedusaError.Types.NOT_ALLOWED,
-        "Slot Time Not Available!",
-        "404"
+    return await this.atomicPhase_(async (manager) => {
+      const [hold] = await this.calendarTimeperiod_
+        .withTransaction(manager)
+        .list({ id: holdId, calendar_id: calendarId, type: "hold" }, {});
+
+      if (hold && hold.metadata?.cart_id !== cartId)
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          "Slot hold doesn't belong to the order",
+          "400"
+        );
+
+      return hold ?? null;
+    });
+  }
+
+  /**
+   * Check that the services can be booked at slot_time, throw a MedusaError when they can't
+   * the calendar must belong to the location through a Division, the duration must be set and fit in the available time
+   */
+  async checkSlotTime_(input: CheckSlotTimeInput): Promise<SlotTimeCheck> {
+    return await this.atomicPhase_(async (manager) => {
+      const { location_id, calendar_id, serviceTime, hold, is_chained, excludeTimeperiodIds = [] } = input;
+      const requested_time = new Date(input.slot_time);
+
+      const [division] = await this.division_
+        .withTransaction(manager)
+        .list({ location_id, calendar_id }, { take: 1 });
+      if (!division)
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Calendar with ${calendar_id} doesn't belong to Location with ${location_id}`,
+          "400"
+        );
+
+      // calculated duration_min and buffer on product general or variant
+      if (!(serviceTime.duration_min > 0))
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          "Services don't have any duration_min",
+          "400"
+        );
+
+      // get available time, same engine used for the slot times in store
+      // the whole days around the range are loaded, they cover the buffer before of a chained appointment too
+      const availability = await this.location_
+        .withTransaction(manager)
+        .getAvailability_(
+          calendar_id,
+          location_id,
+          requested_time,
+          new Date(requested_time.getTime() + serviceTime.duration_min * 60 * 1000),
+          [...excludeTimeperiodIds, ...(hold ? [hold.id] : [])]
+        );
+
+      // the buffer is blocked in the calendar too, but not shown in the appointment
+      const buffer = this.location_.resolveBuffer(availability, serviceTime);
+
+      // a chained appointment is requested at the end of the previous one with its buffer after, it start after its own buffer before
+      const slot_time = is_chained
+        ? new Date(requested_time.getTime() + buffer.before * 60 * 1000)
+        : requested_time;
+
+      // calculated slot_time + duration_min items
+      const slot_time_until = new Date(
+        slot_time.getTime() + serviceTime.duration_min * 60 * 1000
       );
 
-    const dataInput = {
-      order_id: order_id,
-      is_confirmed: false,
-      status: AppointmentStatus.DRAFT,
-    };
+      // a hold which didn't expire was checked against the booking rules when it was made, the payment can take longer than the notice
+      const isHeld = !!hold && new Date(hold.expires_at) > new Date();
+
+      // check minimum notice, same day cutoff and maximum horizon
+      if (!isHeld) this.checkBookingRules(slot_time, availability);
+
+      const blocked_from = new Date(slot_time.getTime() - buffer.before * 60 * 1000);
+      const blocked_until = new Date(slot_time_until.getTime() + buffer.after * 60 * 1000);
+
+      // is slot time available, a held or chained slot isn't on the slot grid of the calendar
+      const isSlotTimeAvailable = isHeld || is_chained
+        ? isIntervalAvailable(blocked_from, blocked_until, availability.intervals)
+        : this.isSlotTimeAvailable(slot_time, slot_time_until, availability, buffer);
+      if (!isSlotTimeAvailable)
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          "Slot Time Not Available!",
+          "404"
+        );
 
-    const ap = await this.create(dataInput);
-    const appointment: Appointment = await this.retrieve(ap.id, {
-      relations: ["order", "order.items"],
+      return { serviceTime, slot_time, slot_time_until, buffer, blocked_from, blocked_until };
     });
+  }
+
+  /**
+   * Validate the appointment data of a cart before it's completed, so an invalid booking fail the checkout instead of the order.placed subscriber
+   * @param cartId cart with cart.context.is_make_appointment
+   */
+  async validateCartAppointment(cartId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const cart = await this.cart_.withTransaction(manager).retrieve(cartId, {
+        relations: ["items"],
+      });
 
-    // create timeperiod
-    const timeperiod = await this.calendarTimeperiod_.create({
-      calendar_id: calendar_id,
-      title: `Appointment for ${appointment.order_id}`,
-      type: "blocked",
-      from: new Date(slot_time),
-      to: new Date(slot_time_until),
-      metadata: {
-        appointment_id: appointment.id,
-      },
+      if (cart.context?.is_make_appointment != true) return;
+
+      const { location_id, calendar_id, slot_time, hold_id } =
+        (cart.context.data_make_appointment ?? {}) as Record<string, string>;
+
+      if (!location_id || !slot_time || !calendar_id)
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          "location_id, calendar_id or slot_time not filled, create appointment failed.",
+          "400"
+        );
+
+      if (isNaN(new Date(slot_time).getTime()))
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `slot_time ${slot_time} is not a valid date`,
+          "400"
+        );
+
+      const hold = await this.withTransaction(manager).retrieveHold_(hold_id, calendar_id, cartId);
+
+      await this.withTransaction(manager).checkSlotTime_({
+        location_id,
+        calendar_id,
+        slot_time,
+        serviceTime: this.getItemsServiceTime(cart.items),
+        hold,
+      });
     });
+  }
+
+  /**
+   * Book a slot for an order, everything run in one transaction
+   * the calendar row is locked so bookings on the same calendar are checked one after another,
+   * and the exclusion constraint on calendar_timeperiod reject an overlapping booking or hold which get through anyway
+   */
+  async makeAppointment(makeAppointmentInput: MakeAppointmentInput) {
+    const { order_id, location_id, calendar_id, slot_time, hold_id, items, is_chained } =
+      makeAppointmentInput;
+
+    return await this.atomicPhase_(async (manager) => {
+      // check calendar exists or not, and wait for the other bookings on it
+      await this.calendar_.withTransaction(manager).retrieveForUpdate(calendar_id);
+
+      // an order can have several appointments, but an item can't be booked twice
+
+      const location = await this.location_.withTransaction(manager).retrieve(location_id, {
+        relations: ["country", "company"],
+      });
+      const order = await this.order_.withTransaction(manager).retrieve(order_id, {
+        relations: ["items"],
+      });
+
+      // the hold of the cart turn into the appointment, it don't block its own slot
+      const hold = await this.withTransaction(manager).retrieveHold_(
+        hold_id,
+        calendar_id,
+        order.cart_id
+      );
 
-    // update status to scheduled
-    await this.update(appointment.id, {
-      status: AppointmentStatus.SCHEDULED,
-      from: new Date(slot_time),
-      to: new Date(slot_time_until),
-      metadata: {
-        calendar_timeperiod_id: timeperiod.id,
-        location: location,
-      },
+      // only the service items are booked, the other products don't take time
+      const appointmentItems = await this.withTransaction(manager).resolveAppointmentItems(order, items);
+
+      const { slot_time: booked_time, slot_time_until, buffer, blocked_from, blocked_until } =
+        await this.withTransaction(manager).checkSlotTime_({
+          location_id,
+          calendar_id,
+          slot_time,
+          serviceTime: this.getItemsServiceTime(
+            appointmentItems.map((x) => ({
+              variant: order.items.find((i) => i.id === x.line_item_id).variant,
+              quantity: x.quantity,
+            }))
+          ),
+          hold,
+          is_chained,
+        });
+
+      const dataInput = {
+        order_id: order_id,
+        is_confirmed: false,
+        status: AppointmentStatus.DRAFT,
+        items: appointmentItems,
+      };
+
+      const ap = await this.withTransaction(manager).create(dataInput);
+
+      if (hold) await this.calendarTimeperiod_.withTransaction(manager).delete(hold.id);
+
+      // create timeperiod, a SlotConflictError is thrown when another booking took the slot
+      const timeperiod = await this.calendarTimeperiod_.withTransaction(manager).create({
+        calendar_id: calendar_id,
+        title: `Appointment for ${order_id}`,
+        type: "blocked",
+        from: blocked_from,
+        to: blocked_until,
+        metadata: {
+          appointment_id: ap.id,
+          buffer_before_min: buffer.before,
+          buffer_after_min: buffer.after,
+        },
+      });
+
+      // update status to scheduled
+      await this.withTransaction(manager).update(ap.id, {
+        status: AppointmentStatus.SCHEDULED,
+        from: booked_time,
+        to: new Date(slot_time_until),
+        metadata: {
+          calendar_timeperiod_id: timeperiod.id,
+          calendar_id: calendar_id,
+          location: location,
+        },
+      });
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(
+          AppointmentService.Events.SCHEDULED,
+          await this.withTransaction(manager).buildEventData(ap.id)
+        );
+
+      return await this.withTransaction(manager).retrieve(ap.id, {
+        relations: ["order", "order.items"],
+      });
     });
+  }
+
+  /**
+   * Book several appointments for one order in one transaction, like different services on different calendars or times
+   * a booking without slot_time start when the previous one ends, so the services are chained back-to-back with their buffers between them
+   * @param orderId order of the appointments
+   * @param bookings the items and slot of every appointment, the order of the list is the order of the chain
+   */
+  async makeAppointments(
+    orderId: string,
+    bookings: MakeAppointmentBooking[]
+  ): Promise<Appointment[]> {
+    return await this.atomicPhase_(async (manager) => {
+      // wait for the other bookings, always in the same order so two orders don't deadlock
+      for (const id of [...new Set(bookings.map((x) => x.calendar_id))].sort()) {
+        await this.calendar_.withTransaction(manager).retrieveForUpdate(id);
+      }
+
+      const appointments: Appointment[] = [];
+
+      for (const booking of bookings) {
+        const previous = appointments[appointments.length - 1];
+
+        if (!booking.slot_time && !previous)
+          throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            "slot_time of the first appointment is required",
+            "400"
+          );
+
+        // a chained booking start after the buffer after of the previous one, the end of its blocked timeperiod
+        const previousEnd = !booking.slot_time
+          ? (
+              await this.calendarTimeperiod_
+                .withTransaction(manager)
+                .retrieve(previous.metadata.calendar_timeperiod_id as string, {})
+            ).to
+          : null;
+
+        // bookings which overlap on the same calendar are rejected by the exclusion constraint, the whole order fail
+        appointments.push(
+          await this.withTransaction(manager).makeAppointment({
+            ...booking,
+            order_id: orderId,
+            slot_time: booking.slot_time ?? previousEnd,
+            is_chained: !booking.slot_time,
+          })
+        );
+      }
 
-    return await this.retrieve(appointment.id, {
-      relations: ["order", "order.items"],
+      return appointments;
     });
   }
 }
@@ -0,0 +1,257 @@
+import { EventBusService, TransactionBaseService } from '@medusajs/medusa';
+import { buildQuery } from '@medusajs/medusa/dist/utils/build-query';
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager, In, IsNull } from "typeorm"
+import { createHash, randomBytes } from "crypto"
+import { CalendarFeedRepository } from "../repositories/calendar-feed";
+import { CalendarFeed } from '../models/calendar-feed';
+import { Appointment } from '../models/appointment';
+import { CreateCalendarFeedInput, CreatedCalendarFeed } from '../types/calendar-feed';
+import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
+import AppointmentService from './appointment';
+import CalendarService from './calendar';
+import CalendarTimeperiodService from './calendar-timeperiod';
+import { ICalEventInput, formatDateTimeValue, renderICalendar } from '../utils/ical';
+import { addDay } from '../utils/date-utils';
+
+type InjectedDependencies = {
+    manager: EntityManager
+    calendarFeedRepository: typeof CalendarFeedRepository
+    appointmentService: AppointmentService
+    calendarService: CalendarService
+    calendarTimeperiodService: CalendarTimeperiodService
+    eventBusService: EventBusService
+}
+
+/**
+ * Read-only iCalendar feed of a calendar, for the staff to subscribe to it from Google / Apple Calendar
+ * the feed is opened with a token which can be revoked
+ */
+class CalendarFeedService extends TransactionBaseService {
+    protected manager_: EntityManager
+    protected transactionManager_: EntityManager | undefined
+
+    protected readonly calendarFeedRepository_: typeof CalendarFeedRepository
+    protected readonly appointment_: AppointmentService
+    protected readonly calendar_: CalendarService
+    protected readonly calendarTimeperiod_: CalendarTimeperiodService
+    protected readonly eventBus_: EventBusService
+
+    static readonly Events = {
+        CREATED: "calendar-feed.created",
+        REVOKED: "calendar-feed.revoked",
+    }
+
+    // days of the calendar in the feed, before and after today
+    static readonly PAST_DAYS = 30
+    static readonly FUTURE_DAYS = 180
+
+    constructor({
+        manager,
+        calendarFeedRepository,
+        appointmentService,
+        calendarService,
+        calendarTimeperiodService,
+        eventBusService,
+    }: InjectedDependencies) {
+        super(arguments[0]);
+
+        this.manager_ = manager;
+        this.calendarFeedRepository_ = calendarFeedRepository;
+        this.appointment_ = appointmentService;
+        this.calendar_ = calendarService;
+        this.calendarTimeperiod_ = calendarTimeperiodService;
+        this.eventBus_ = eventBusService;
+    }
+
+    protected hashToken_(token: string) {
+        return createHash("sha256").update(token).digest("hex")
+    }
+
+    async list(
+        selector: Selector<CalendarFeed>,
+        config: FindConfig<CalendarFeed> = {
+          skip: 0,
+          take: 50,
+          relations: [],
+        }
+      ): Promise<CalendarFeed[]> {
+        const calendarFeedRepo = this.manager_.getCustomRepository(this.calendarFeedRepository_)
+
+        const query = buildQuery(selector, config)
+
+        return calendarFeedRepo.find(query)
+    }
+
+    async retrieve(calendarFeedId: string, config: FindConfig<CalendarFeed> = {}) {
+        const manager = this.manager_
+        const calendarFeedRepo = manager.getCustomRepository(this.calendarFeedRepository_)
+
+        const calendarFeed = await calendarFeedRepo.findOne(calendarFeedId, config)
+
+        if (!calendarFeed) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `CalendarFeed with ${calendarFeedId} was not found`
+            )
+        }
+
+        return calendarFeed
+    }
+
+    /**
+     * Create a feed of the calendar, the token is only given here
+     * @param calendarId calendar of the feed
+     * @param input name of the feed and if the customers are shown
+     */
+    async create(calendarId: string, input: CreateCalendarFeedInput = {}): Promise<CreatedCalendarFeed> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarFeedRepo = manager.getCustomRepository(this.calendarFeedRepository_)
+
+            // check calendar exists or not
+            await this.calendar_.withTransaction(manager).retrieve(calendarId, {})
+
+            const token = randomBytes(32).toString("hex")
+
+            const calendarFeed = await calendarFeedRepo.save(
+                calendarFeedRepo.create({
+                    ...input,
+                    calendar_id: calendarId,
+                    token_hash: this.hashToken_(token),
+                })
+            )
+
+            const feed = await this.withTransaction(manager).retrieve(calendarFeed.id, {})
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(CalendarFeedService.Events.CREATED, {
+                    id: feed.id,
+                    calendar_id: calendarId,
+                })
+
+            return { feed, token }
+        })
+    }
+
+    // the token of a revoked feed don't open it anymore
+    async revoke(calendarFeedId: string): Promise<CalendarFeed> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarFeedRepo = manager.getCustomRepository(this.calendarFeedRepository_)
+
+            const calendarFeed = await this.withTransaction(manager).retrieve(calendarFeedId, {})
+            if (calendarFeed.revoked_at) return calendarFeed
+
+            calendarFeed.revoked_at = new Date()
+            const result = await calendarFeedRepo.save(calendarFeed)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(CalendarFeedService.Events.REVOKED, {
+                    id: result.id,
+                    calendar_id: result.calendar_id,
+                })
+
+            return result
+        })
+    }
+
+    /**
+     * Get the feed of the calendar opened by the token, a wrong or revoked token is not found
+     * @param calendarId calendar of the feed
+     * @param token token given when the feed was created
+     */
+    async retrieveByToken(calendarId: string, token: string): Promise<CalendarFeed> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarFeedRepo = manager.getCustomRepository(this.calendarFeedRepository_)
+
+            const calendarFeed = await calendarFeedRepo.findOne({
+                calendar_id: calendarId,
+                token_hash: this.hashToken_(token),
+                revoked_at: IsNull(),
+            })
+
+            if (!calendarFeed) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_FOUND,
+                    `Calendar with ${calendarId} was not found`
+                )
+            }
+
+            calendarFeed.last_used_at = new Date()
+            return await calendarFeedRepo.save(calendarFeed)
+        })
+    }
+
+    protected appointmentSummary_(appointment: Appointment, feed: CalendarFeed) {
+        const services = this.appointment_.getAppointmentServiceNames(appointment)
+        const customer = appointment.order?.customer
+        const address = appointment.order?.shipping_address
+        const name = [
+            customer?.first_name ?? address?.first_name,
+            customer?.last_name ?? address?.last_name,
+        ].filter(Boolean).join(" ")
+
+        const summary = [`Appointment #${appointment.display_id}`, feed.include_customer_details ? name : null]
+            .filter(Boolean)
+            .join(" - ")
+
+        const description = [
+            ...services,
+            ...(feed.include_customer_details
+                ? [appointment.order?.email, customer?.phone ?? address?.phone]
+                : []),
+        ].filter(Boolean).join("\n")
+
+        return { summary, description }
+    }
+
+    /**
+     * Render the timeperiods of the calendar as an iCalendar file, the recurring ones are expanded
+     * the appointments hide the customers unless the feed include them, the holds are left out
+     * @param feed feed opened by the token
+     */
+    async renderFeed(feed: CalendarFeed): Promise<string> {
+        const calendar = await this.calendar_.retrieve(feed.calendar_id, {})
+
+        const now = new Date()
+        const occurrences = (
+            await this.calendarTimeperiod_.listOccurrences(
+                { calendar_id: calendar.id },
+                addDay(now, -CalendarFeedService.PAST_DAYS),
+                addDay(now, CalendarFeedService.FUTURE_DAYS)
+            )
+        ).filter((x) => x.type !== "hold")
+
+        const appointmentIds = occurrences
+            .map((x) => x.metadata?.appointment_id as string)
+            .filter(Boolean)
+
+        const [appointments] = appointmentIds.length
+            ? await this.appointment_.list(
+                { id: In(appointmentIds) },
+                { relations: ["items", "order", "order.items", "order.customer", "order.shipping_address"] }
+            )
+            : [[]]
+
+        const events: ICalEventInput[] = occurrences.map((x) => {
+            const appointment = appointments.find((a) => a.id === x.metadata?.appointment_id)
+
+            return {
+                uid: `${x.id}${x.recurrence_id ? `-${formatDateTimeValue(x.recurrence_id)}` : ""}@medusa-plugin-service`,
+                sequence: appointment?.ics_sequence ?? 0,
+                start: x.from,
+                end: x.to,
+                stamp: now,
+                ...(appointment
+                    ? this.appointmentSummary_(appointment, feed)
+                    : { summary: x.title || x.type || "Busy" }),
+                transparency: x.type === "working_hour" ? "TRANSPARENT" : "OPAQUE",
+            }
+        })
+
+        return renderICalendar(events, { name: calendar.name })
+    }
+}
+
+export default CalendarFeedService;
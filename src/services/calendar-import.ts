@@ -0,0 +1,472 @@
+import { EventBusService, TransactionBaseService } from '@medusajs/medusa';
+import { formatException } from '@medusajs/medusa/dist/utils/exception-formatter';
+import { buildQuery } from '@medusajs/medusa/dist/utils/build-query';
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager, IsNull, Not } from "typeorm"
+import { promises as fs } from "fs"
+import * as http from "http"
+import * as https from "https"
+import { fileURLToPath } from "url"
+import { CalendarImportSourceRepository } from "../repositories/calendar-import-source";
+import { CalendarImportSource } from '../models/calendar-import-source';
+import { CalendarTimeperiod } from '../models/calendar-timeperiod';
+import {
+    CreateCalendarImportSourceInput,
+    ImportCalendarResult,
+    UpdateCalendarImportSourceInput
+} from '../types/calendar-import';
+import { CreateCalendarTimeperiodInput } from '../types/calendar-timeperiod';
+import { setMetadata } from '@medusajs/medusa/dist/utils';
+import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
+import CalendarService from './calendar';
+import CalendarTimeperiodService from './calendar-timeperiod';
+import LocationService from './location';
+import ServiceSettingService from './service-setting';
+import { parseICalendar } from '../utils/ical';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+
+type InjectedDependencies = {
+    manager: EntityManager
+    calendarImportSourceRepository: typeof CalendarImportSourceRepository
+    calendarService: CalendarService
+    calendarTimeperiodService: CalendarTimeperiodService
+    locationService: LocationService
+    serviceSettingService: ServiceSettingService
+    eventBusService: EventBusService
+}
+
+/**
+ * Import the busy events of an iCalendar file of another calendar tool as blocked timeperiods
+ * the events are matched by UID, so a re-import update or remove them, an import source is synced by the calendar-import-sync job
+ */
+class CalendarImportService extends TransactionBaseService {
+    protected manager_: EntityManager
+    protected transactionManager_: EntityManager | undefined
+
+    protected readonly calendarImportSourceRepository_: typeof CalendarImportSourceRepository
+    protected readonly calendar_: CalendarService
+    protected readonly calendarTimeperiod_: CalendarTimeperiodService
+    protected readonly location_: LocationService
+    protected readonly setting_: ServiceSettingService
+    protected readonly eventBus_: EventBusService
+
+    static readonly Events = {
+        UPDATED: "calendar-import-source.updated",
+        CREATED: "calendar-import-source.created",
+        DELETED: "calendar-import-source.deleted",
+        SYNC_FAILED: "calendar-import-source.sync_failed",
+        IMPORTED: "calendar.imported",
+    }
+
+    // the sources can read local files only when this setting is enabled, e.g. a file which stand in for a remote calendar in tests
+    static readonly Settings = {
+        ALLOW_LOCAL_FILES: "calendar_import_allow_local_files",
+    }
+
+    static readonly MAX_FILE_SIZE = 5 * 1024 * 1024
+    static readonly TIMEOUT_MS = 30 * 1000
+
+    constructor({
+        manager,
+        calendarImportSourceRepository,
+        calendarService,
+        calendarTimeperiodService,
+        locationService,
+        serviceSettingService,
+        eventBusService,
+    }: InjectedDependencies) {
+        super(arguments[0]);
+
+        this.manager_ = manager;
+        this.calendarImportSourceRepository_ = calendarImportSourceRepository;
+        this.calendar_ = calendarService;
+        this.calendarTimeperiod_ = calendarTimeperiodService;
+        this.location_ = locationService;
+        this.setting_ = serviceSettingService;
+        this.eventBus_ = eventBusService;
+    }
+
+    async list(
+        selector: Selector<CalendarImportSource>,
+        config: FindConfig<CalendarImportSource> = {
+          skip: 0,
+          take: 50,
+          relations: [],
+        }
+      ): Promise<CalendarImportSource[]> {
+        const calendarImportSourceRepo = this.manager_.getCustomRepository(this.calendarImportSourceRepository_)
+
+        const query = buildQuery(selector, config)
+
+        return calendarImportSourceRepo.find(query)
+    }
+
+    async retrieve(calendarImportSourceId: string, config: FindConfig<CalendarImportSource> = {}) {
+        const manager = this.manager_
+        const calendarImportSourceRepo = manager.getCustomRepository(this.calendarImportSourceRepository_)
+
+        const calendarImportSource = await calendarImportSourceRepo.findOne(calendarImportSourceId, config)
+
+        if (!calendarImportSource) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `CalendarImportSource with ${calendarImportSourceId} was not found`
+            )
+        }
+
+        return calendarImportSource
+    }
+
+    async create(calendarId: string, calendarImportSourceObject: CreateCalendarImportSourceInput): Promise<CalendarImportSource> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarImportSourceRepo = manager.getCustomRepository(this.calendarImportSourceRepository_)
+
+            // check calendar exists or not
+            await this.calendar_.withTransaction(manager).retrieve(calendarId, {})
+
+            try {
+                let calendarImportSource: any = calendarImportSourceRepo.create({
+                    ...calendarImportSourceObject,
+                    calendar_id: calendarId,
+                })
+                calendarImportSource = await calendarImportSourceRepo.save(calendarImportSource)
+
+                const result = await this.withTransaction(manager).retrieve(calendarImportSource.id, {})
+
+                await this.eventBus_
+                    .withTransaction(manager)
+                    .emit(CalendarImportService.Events.CREATED, {
+                        id: result.id,
+                    })
+                return result
+            } catch (error) {
+                throw formatException(error)
+            }
+        })
+    }
+
+    async update(
+        calendarImportSourceId: string,
+        update: UpdateCalendarImportSourceInput
+    ): Promise<CalendarImportSource> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarImportSourceRepo = manager.getCustomRepository(this.calendarImportSourceRepository_)
+
+            const calendarImportSource = await this.withTransaction(manager).retrieve(calendarImportSourceId, {})
+
+            const {
+                metadata,
+                ...rest
+            } = update
+
+            if (metadata) {
+                calendarImportSource.metadata = setMetadata(calendarImportSource, metadata)
+            }
+
+            for (const [key, value] of Object.entries(rest)) {
+                if (typeof value !== `undefined`) {
+                    calendarImportSource[key] = value
+                }
+            }
+
+            const result = await calendarImportSourceRepo.save(calendarImportSource)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(CalendarImportService.Events.UPDATED, {
+                    id: result.id,
+                    fields: Object.keys(update),
+                })
+            return result
+        })
+    }
+
+    // the events imported from the source are removed with it
+    async delete(calendarImportSourceId: string): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarImportSourceRepo = manager.getCustomRepository(this.calendarImportSourceRepository_)
+
+            const calendarImportSource = await calendarImportSourceRepo.findOne(
+                { id: calendarImportSourceId },
+                {}
+            )
+
+            if (!calendarImportSource) {
+                return
+            }
+
+            const timeperiods = await this.calendarTimeperiod_
+                .withTransaction(manager)
+                .list({ import_source_id: calendarImportSourceId }, {})
+
+            for (const x of timeperiods) {
+                await this.calendarTimeperiod_.withTransaction(manager).delete(x.id)
+            }
+
+            await calendarImportSourceRepo.softRemove(calendarImportSource)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(CalendarImportService.Events.DELETED, {
+                    id: calendarImportSourceId,
+                })
+
+            return Promise.resolve()
+        })
+    }
+
+    protected isChanged_(current: CalendarTimeperiod, data: CreateCalendarTimeperiodInput) {
+        const time = (d) => (d ? new Date(d).getTime() : null)
+        const times = (dates?: Date[] | null) => (dates ?? []).map(time).sort().join(",")
+
+        return current.title !== data.title ||
+            time(current.from) !== time(data.from) ||
+            time(current.to) !== time(data.to) ||
+            (current.rrule ?? null) !== (data.rrule ? normalizeRecurrenceRule(data.rrule) : null) ||
+            times(current.exdates) !== times(data.exdates) ||
+            (current.recurring_parent_id ?? null) !== (data.recurring_parent_id ?? null)
+    }
+
+    /**
+     * Create or update the busy events of an iCalendar file as blocked timeperiods of the calendar, matched by UID
+     * the events of the previous file which are not in this one are removed, free and cancelled events are left out
+     * a changed occurrence of a recurring event is detached from its series like updateOccurrence does
+     * @param calendarId calendar which is blocked, its time zone is used for floating times
+     * @param content content of the .ics file
+     * @param sourceId source of the file, null for an uploaded file
+     * @param fileKey identify an uploaded file, its uids start with it and a re-upload with the same key replace its events only
+     * without it the events of the upload are added and updated, none is removed
+     */
+    async importICalendar(
+        calendarId: string,
+        content: string,
+        sourceId: string | null = null,
+        fileKey?: string
+    ): Promise<ImportCalendarResult> {
+        const prefix = !sourceId && fileKey ? `${fileKey}:` : ""
+
+        return await this.atomicPhase_(async (manager) => {
+            const calendarTimeperiodService = this.calendarTimeperiod_.withTransaction(manager)
+            const result: ImportCalendarResult = { created: 0, updated: 0, removed: 0 }
+
+            const timeZone = await this.location_.retrieveTimezoneByCalendarId(calendarId)
+            const events = parseICalendar(content, timeZone).filter((e) => e.transparency !== "TRANSPARENT")
+
+            const key = (uid: string, recurrenceId: Date | null) =>
+                `${uid}|${recurrenceId ? new Date(recurrenceId).toISOString() : ""}`
+
+            // occurrences which are changed or cancelled in the file are left out of their series
+            const replaced = new Map<string, Date[]>()
+            for (const event of events.filter((e) => e.recurrence_id)) {
+                replaced.set(event.uid, [...(replaced.get(event.uid) ?? []), event.recurrence_id])
+            }
+
+            // the series first, so the changed occurrences can be linked to them
+            const busy = events
+                .filter((e) => e.status !== "CANCELLED")
+                .sort((a, b) => Number(!!a.recurrence_id) - Number(!!b.recurrence_id))
+
+            const existing = await calendarTimeperiodService.list(
+                { calendar_id: calendarId, import_source_id: sourceId ?? IsNull(), external_uid: Not(IsNull()) },
+                {}
+            )
+            const existingByKey = new Map(existing.map((x) => [key(x.external_uid, x.recurrence_id), x]))
+            const seriesIds = new Map<string, string>()
+            const imported = new Set<string>()
+
+            for (const event of busy) {
+                const eventKey = key(prefix + event.uid, event.recurrence_id)
+                if (imported.has(eventKey)) continue
+                imported.add(eventKey)
+
+                const data: CreateCalendarTimeperiodInput = {
+                    calendar_id: calendarId,
+                    title: event.summary || "Busy",
+                    type: "blocked",
+                    from: event.start,
+                    to: event.end,
+                    rrule: event.rrule,
+                    exdates: event.rrule ? [...event.exdates, ...(replaced.get(event.uid) ?? [])] : null,
+                    timezone: event.rrule ? timeZone : null,
+                    recurring_parent_id: event.recurrence_id ? seriesIds.get(event.uid) ?? null : null,
+                    recurrence_id: event.recurrence_id,
+                    external_uid: prefix + event.uid,
+                    import_source_id: sourceId,
+                }
+
+                const current = existingByKey.get(eventKey)
+
+                if (!current) {
+                    const created = await calendarTimeperiodService.create(data)
+                    if (event.rrule) seriesIds.set(event.uid, created.id)
+                    result.created++
+                    continue
+                }
+
+                if (event.rrule) seriesIds.set(event.uid, current.id)
+
+                if (this.isChanged_(current, data)) {
+                    await calendarTimeperiodService.update(current.id, data)
+                    result.updated++
+                }
+            }
+
+            // a source replace all its events, an upload only the ones of the same file key
+            const removed = sourceId || fileKey
+                ? existing.filter((x) =>
+                    x.external_uid.startsWith(prefix) && !imported.has(key(x.external_uid, x.recurrence_id))
+                )
+                : []
+            for (const x of removed) {
+                await calendarTimeperiodService.delete(x.id)
+            }
+            result.removed = removed.length
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(CalendarImportService.Events.IMPORTED, {
+                    id: calendarId,
+                    import_source_id: sourceId,
+                    ...result,
+                })
+
+            return result
+        })
+    }
+
+    protected download_(url: string, redirects: number = 3): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const client = url.startsWith("https:") ? https : http
+
+            const request = client.get(url, { timeout: CalendarImportService.TIMEOUT_MS }, (response) => {
+                const status = response.statusCode ?? 0
+                const location = response.headers.location
+
+                if (status >= 300 && status < 400 && location && redirects > 0) {
+                    response.resume()
+                    const next = new URL(location, url).toString()
+
+                    if (!/^https?:\/\//i.test(next)) {
+                        reject(new MedusaError(MedusaError.Types.NOT_ALLOWED, `Calendar ${url} redirect to ${next}`))
+                        return
+                    }
+
+                    resolve(this.download_(next, redirects - 1))
+                    return
+                }
+
+                if (status !== 200) {
+                    response.resume()
+                    reject(new MedusaError(MedusaError.Types.UNEXPECTED_STATE, `Calendar ${url} answered with status ${status}`))
+                    return
+                }
+
+                const chunks: Buffer[] = []
+                let size = 0
+
+                response.on("data", (chunk: Buffer) => {
+                    size += chunk.length
+                    if (size > CalendarImportService.MAX_FILE_SIZE) {
+                        request.destroy(new MedusaError(MedusaError.Types.NOT_ALLOWED, `Calendar ${url} is too large`))
+                        return
+                    }
+                    chunks.push(chunk)
+                })
+                response.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
+                response.on("error", reject)
+            })
+
+            request.on("timeout", () => {
+                request.destroy(new MedusaError(MedusaError.Types.UNEXPECTED_STATE, `Calendar ${url} timed out`))
+            })
+            request.on("error", reject)
+        })
+    }
+
+    /**
+     * Read the .ics file of a source, webcal:// is read as https://
+     * a file:// url or a path is only read when calendar_import_allow_local_files is enabled
+     */
+    protected async read_(url: string): Promise<string> {
+        const location = url.trim().replace(/^webcal:\/\//i, "https://")
+
+        if (/^https?:\/\//i.test(location)) return await this.download_(location)
+
+        if (!(await this.setting_.isEnabled(CalendarImportService.Settings.ALLOW_LOCAL_FILES, false))) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                `Calendar ${url} is not an http(s) url, local files are not allowed`
+            )
+        }
+
+        const path = location.startsWith("file://") ? fileURLToPath(location) : location
+        const stat = await fs.stat(path)
+
+        if (stat.size > CalendarImportService.MAX_FILE_SIZE) {
+            throw new MedusaError(MedusaError.Types.NOT_ALLOWED, `Calendar ${url} is too large`)
+        }
+
+        return await fs.readFile(path, "utf8")
+    }
+
+    protected async setSyncState_(calendarImportSourceId: string, error: string | null): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarImportSourceRepo = manager.getCustomRepository(this.calendarImportSourceRepository_)
+
+            await calendarImportSourceRepo.update(
+                { id: calendarImportSourceId },
+                error ? { last_error: error } : { last_synced_at: new Date(), last_error: null }
+            )
+
+            if (error) {
+                await this.eventBus_
+                    .withTransaction(manager)
+                    .emit(CalendarImportService.Events.SYNC_FAILED, {
+                        id: calendarImportSourceId,
+                        error,
+                    })
+            }
+        })
+    }
+
+    /**
+     * Read the file of the source and import it, the error of a failed sync is kept in last_error
+     * not in a transaction, so the error is saved when the import is rolled back
+     */
+    async sync(calendarImportSourceId: string): Promise<ImportCalendarResult> {
+        const source = await this.retrieve(calendarImportSourceId, {})
+
+        try {
+            const content = await this.read_(source.url)
+            const result = await this.importICalendar(source.calendar_id, content, source.id)
+
+            await this.setSyncState_(source.id, null)
+            return result
+        } catch (error) {
+            await this.setSyncState_(source.id, error?.message || `${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Sync every enabled source, called by the calendar-import-sync cron job
+     * @return count of sources which were synced
+     */
+    async syncAll(): Promise<number> {
+        const sources = await this.list({ is_enabled: true }, {})
+        let count = 0
+
+        for (const source of sources) {
+            try {
+                await this.sync(source.id)
+                count++
+            } catch (error) {
+                // already kept in last_error, the other sources are still synced
+            }
+        }
+
+        return count
+    }
+}
+
+export default CalendarImportService;
@@ -2,10 +2,23 @@ import { EventBusService, TransactionBaseService } from '@medusajs/medusa';
 import { formatException } from '@medusajs/medusa/dist/utils/exception-formatter';
 import { buildQuery } from '@medusajs/medusa/dist/utils/build-query';
 import { MedusaError } from "medusa-core-utils"
-import { EntityManager, LessThanOrEqual, MoreThanOrEqual } from "typeorm"
+import { EntityManager, IsNull, LessThan, LessThanOrEqual, MoreThan, MoreThanOrEqual, Not } from "typeorm"
 import { CalendarTimeperiodRepository } from "../repositories/calendar-timeperiod";
 import { CalendarTimeperiod } from '../models/calendar-timeperiod';
-import { CreateCalendarTimeperiodInput, UpdateCalendarTimeperiodInput } from '../types/calendar-timeperiod';
+import {
+    CalendarTimeperiodOccurrence,
+    CreateCalendarTimeperiodInput,
+    RecurrenceScope,
+    UpdateCalendarTimeperiodInput
+} from '../types/calendar-timeperiod';
+import {
+    expandRecurrence,
+    getRecurrenceEnd,
+    isRecurrenceOccurrence,
+    normalizeRecurrenceRule,
+    splitRecurrenceRule
+} from '../utils/recurrence';
+import { isExclusionViolation, SlotConflictError } from '../utils/errors';
 import { setMetadata } from '@medusajs/medusa/dist/utils';
 import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
 
@@ -70,6 +83,85 @@ class CalendarTimeperiodService extends TransactionBaseService {
         return calendarTimeperiodRepo.findAndCount({ where: { calendar_id: calendarId } })
     }
 
+    /**
+     * List the timeperiods which overlap from - to, recurring timeperiods are expanded to their occurrences
+     * @param selector calendar_id and type of the timeperiods
+     * @param from start of the range
+     * @param to end of the range
+     */
+    async listOccurrences(
+        selector: Selector<CalendarTimeperiod>,
+        from: Date,
+        to: Date
+    ): Promise<CalendarTimeperiodOccurrence[]> {
+        const toOccurrence = (tp: CalendarTimeperiod, interval?): CalendarTimeperiodOccurrence => ({
+            id: tp.id,
+            title: tp.title,
+            type: tp.type,
+            calendar_id: tp.calendar_id,
+            from: new Date(interval ? interval.from : tp.from),
+            to: new Date(interval ? interval.to : tp.to),
+            rrule: tp.rrule,
+            recurrence_id: interval ? new Date(interval.from) : tp.recurrence_id,
+            metadata: tp.metadata,
+        })
+
+        const calendarTimeperiodRepo = this.manager_.getCustomRepository(this.calendarTimeperiodRepository_)
+        const query = buildQuery(selector, { order: { from: "ASC" } })
+
+        // the range is given as FindOperators, the { lt } / { gt } of buildQuery name the parameters of each column :0, :1 so they overwrite each other
+        const single = await calendarTimeperiodRepo.find({
+            ...query,
+            where: { ...query.where, rrule: IsNull(), from: LessThan(to), to: MoreThan(from) },
+        })
+
+        const series = await calendarTimeperiodRepo.find({
+            ...query,
+            where: { ...query.where, rrule: Not(IsNull()), from: LessThan(to) },
+        })
+
+        const occurrences = series
+            .filter((tp) => !tp.recurrence_until || tp.recurrence_until > from)
+            .flatMap((tp) => expandRecurrence(tp, from, to).map((interval) => toOccurrence(tp, interval)))
+
+        return [...single.map((tp) => toOccurrence(tp)), ...occurrences]
+            .sort((a, b) => a.from.getTime() - b.from.getTime())
+    }
+
+    // validate the rrule and keep recurrence_until in step with it, so series which are over are not expanded anymore
+    protected prepareRecurrence_(calendarTimeperiod: CalendarTimeperiod) {
+        if (!calendarTimeperiod.rrule) {
+            calendarTimeperiod.rrule = null
+            calendarTimeperiod.recurrence_until = null
+            return calendarTimeperiod
+        }
+
+        calendarTimeperiod.rrule = normalizeRecurrenceRule(calendarTimeperiod.rrule)
+        calendarTimeperiod.recurrence_until = getRecurrenceEnd(calendarTimeperiod)
+
+        return calendarTimeperiod
+    }
+
+    protected async retrieveOccurrence_(calendarTimeperiodId: string, occurrence: Date) {
+        const series = await this.retrieve(calendarTimeperiodId, { relations: [] })
+
+        if (!series.rrule) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                `Calendar Timeperiod with ${calendarTimeperiodId} is not recurring`
+            )
+        }
+
+        if (!isRecurrenceOccurrence(series, occurrence)) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `${new Date(occurrence).toISOString()} is not an occurrence of Calendar Timeperiod with ${calendarTimeperiodId}`
+            )
+        }
+
+        return series
+    }
+
     async retrieve(calendarTimeperiodId, config: FindConfig<CalendarTimeperiod>) {
         const manager = this.manager_
         const calendarTimeperiodRepo = manager.getCustomRepository(this.calendarTimeperiodRepository_)
@@ -86,6 +178,35 @@ class CalendarTimeperiodService extends TransactionBaseService {
         return calendar
     }
 
+    // the appointments and the holds are bookings, the exclusion constraint keep them from overlapping on a calendar
+    protected isBooking_(calendarTimeperiod: CalendarTimeperiod) {
+        return calendarTimeperiod.type === "hold" ||
+            (calendarTimeperiod.type === "blocked" && !!calendarTimeperiod.metadata?.appointment_id)
+    }
+
+    /**
+     * Remove the expired holds which overlap a booking before it's saved
+     * they don't block the slot anymore, but they are in the exclusion constraint until releaseExpired removes them
+     */
+    protected async removeExpiredHolds_(manager: EntityManager, calendarTimeperiod: CalendarTimeperiod) {
+        if (!this.isBooking_(calendarTimeperiod) || !calendarTimeperiod.from || !calendarTimeperiod.to) return
+
+        const calendarTimeperiodRepo = manager.getCustomRepository(this.calendarTimeperiodRepository_)
+
+        const expired = await calendarTimeperiodRepo.find({
+            where: {
+                calendar_id: calendarTimeperiod.calendar_id,
+                type: "hold",
+                expires_at: LessThanOrEqual(new Date()),
+                from: LessThan(calendarTimeperiod.to),
+                to: MoreThan(calendarTimeperiod.from),
+            },
+        })
+
+        const removed = expired.filter((x) => x.id !== calendarTimeperiod.id)
+        if (removed.length) await calendarTimeperiodRepo.softRemove(removed)
+    }
+
     async create(calendarTimeperiodObject: CreateCalendarTimeperiodInput): Promise<CalendarTimeperiod> {
         return await this.atomicPhase_(async (manager) => {
             const calendarTimeperiodRepo = manager.getCustomRepository(this.calendarTimeperiodRepository_)
@@ -95,7 +216,8 @@ class CalendarTimeperiodService extends TransactionBaseService {
             } = calendarTimeperiodObject
 
             try {
-                let calendarTimeperiod: any = calendarTimeperiodRepo.create(rest)
+                let calendarTimeperiod: any = this.prepareRecurrence_(calendarTimeperiodRepo.create(rest))
+                await this.removeExpiredHolds_(manager, calendarTimeperiod)
                 calendarTimeperiod = await calendarTimeperiodRepo.save(calendarTimeperiod)
 
                 const result = await this.retrieve(calendarTimeperiod.id, {
@@ -109,6 +231,7 @@ class CalendarTimeperiodService extends TransactionBaseService {
                     })
                 return result
             } catch (error) {
+                if (isExclusionViolation(error)) throw new SlotConflictError()
                 throw formatException(error)
             }
         })
@@ -127,7 +250,10 @@ class CalendarTimeperiodService extends TransactionBaseService {
                 return
             }
 
-            await calendarTimeperiodRepo.softRemove(calendar)
+            // a series is removed with the occurrences which were detached from it
+            const detached = await calendarTimeperiodRepo.find({ recurring_parent_id: calendarTimeperiodId })
+
+            await calendarTimeperiodRepo.softRemove([calendar, ...detached])
 
             await this.eventBus_
                 .withTransaction(manager)
@@ -166,7 +292,14 @@ class CalendarTimeperiodService extends TransactionBaseService {
                 }
             }
 
-            const result = await calendarTimeperiodRepo.save(calendarTimeperiod)
+            await this.removeExpiredHolds_(manager, calendarTimeperiod)
+
+            const result = await calendarTimeperiodRepo
+                .save(this.prepareRecurrence_(calendarTimeperiod))
+                .catch((error) => {
+                    if (isExclusionViolation(error)) throw new SlotConflictError()
+                    throw formatException(error)
+                })
 
             await this.eventBus_
                 .withTransaction(manager)
@@ -177,6 +310,120 @@ class CalendarTimeperiodService extends TransactionBaseService {
             return result
         })
     }
+
+    /**
+     * Change some occurrences of a recurring timeperiod
+     * "this" detach the occurrence as its own timeperiod, "following" split the series at the occurrence, "all" update the series
+     * @param calendarTimeperiodId id of the series
+     * @param occurrence original start of the occurrence
+     * @param scope which occurrences are changed
+     * @param update the changes, from and to are the new times of the occurrence
+     */
+    async updateOccurrence(
+        calendarTimeperiodId: string,
+        occurrence: Date,
+        scope: RecurrenceScope,
+        update: UpdateCalendarTimeperiodInput
+    ): Promise<CalendarTimeperiod> {
+        return await this.atomicPhase_(async (manager) => {
+            if (scope === RecurrenceScope.ALL) {
+                return await this.withTransaction(manager).update(calendarTimeperiodId, update)
+            }
+
+            const series = await this.retrieveOccurrence_(calendarTimeperiodId, occurrence)
+            const start = new Date(occurrence)
+
+            if (scope === RecurrenceScope.FOLLOWING && start.getTime() === new Date(series.from).getTime()) {
+                return await this.withTransaction(manager).update(calendarTimeperiodId, update)
+            }
+
+            const duration = new Date(series.to).getTime() - new Date(series.from).getTime()
+            const exdates = series.exdates || []
+
+            const { metadata, ...rest } = update
+            const occurrenceObject: CreateCalendarTimeperiodInput = {
+                title: series.title,
+                type: series.type,
+                calendar_id: series.calendar_id,
+                timezone: series.timezone,
+                from: start,
+                to: new Date(start.getTime() + duration),
+                metadata: { ...series.metadata, ...metadata },
+            }
+
+            for (const [key, value] of Object.entries(rest)) {
+                if (typeof value !== `undefined`) {
+                    occurrenceObject[key] = value
+                }
+            }
+
+            if (scope === RecurrenceScope.THIS) {
+                await this.withTransaction(manager).update(calendarTimeperiodId, {
+                    exdates: [...exdates, start],
+                })
+
+                return await this.withTransaction(manager).create({
+                    ...occurrenceObject,
+                    rrule: null,
+                    exdates: null,
+                    recurring_parent_id: series.id,
+                    recurrence_id: start,
+                })
+            }
+
+            const split = splitRecurrenceRule(series, start)
+
+            await this.withTransaction(manager).update(calendarTimeperiodId, {
+                rrule: split.before,
+                exdates: exdates.filter((d) => new Date(d) < start),
+            })
+
+            return await this.withTransaction(manager).create({
+                rrule: split.after,
+                exdates: exdates.filter((d) => new Date(d) >= start),
+                ...occurrenceObject,
+            })
+        })
+    }
+
+    /**
+     * Delete some occurrences of a recurring timeperiod
+     * "this" add the occurrence to the exception dates, "following" end the series before the occurrence, "all" delete the series
+     * @param calendarTimeperiodId id of the series
+     * @param occurrence original start of the occurrence
+     * @param scope which occurrences are deleted
+     */
+    async deleteOccurrence(
+        calendarTimeperiodId: string,
+        occurrence: Date,
+        scope: RecurrenceScope
+    ): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            if (scope === RecurrenceScope.ALL) {
+                return await this.withTransaction(manager).delete(calendarTimeperiodId)
+            }
+
+            const series = await this.retrieveOccurrence_(calendarTimeperiodId, occurrence)
+            const start = new Date(occurrence)
+            const exdates = series.exdates || []
+
+            if (scope === RecurrenceScope.THIS) {
+                await this.withTransaction(manager).update(calendarTimeperiodId, {
+                    exdates: [...exdates, start],
+                })
+                return
+            }
+
+            if (start.getTime() === new Date(series.from).getTime()) {
+                return await this.withTransaction(manager).delete(calendarTimeperiodId)
+            }
+
+            await this.withTransaction(manager).update(calendarTimeperiodId, {
+                rrule: splitRecurrenceRule(series, start).before,
+                exdates: exdates.filter((d) => new Date(d) < start),
+            })
+        })
+    }
 }
 
 export default CalendarTimeperiodService;
\ No newline at end of file
@@ -68,6 +68,31 @@ class CalendarService extends TransactionBaseService {
         return calendar
     }
 
+    /**
+     * Retrieve the calendar and lock its row until the transaction end, so bookings on the same calendar run one after another
+     * must be called inside a transaction
+     */
+    async retrieveForUpdate(calendarId: string): Promise<Calendar> {
+        return await this.atomicPhase_(async (manager) => {
+            const calendarRepo = manager.getCustomRepository(this.calendarRepository_)
+
+            const calendar = await calendarRepo
+                .createQueryBuilder("calendar")
+                .setLock("pessimistic_write")
+                .where("calendar.id = :calendarId", { calendarId })
+                .getOne()
+
+            if (!calendar) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_FOUND,
+                    `Calendar with ${calendarId} was not found`
+                )
+            }
+
+            return calendar
+        })
+    }
+
     async create(calendarObject: CreateCalendarInput): Promise<Calendar> {
         return await this.atomicPhase_(async (manager) => {
             const calendarRepo = manager.getCustomRepository(this.calendarRepository_)
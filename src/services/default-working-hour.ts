@@ -5,10 +5,14 @@ import { MedusaError } from "medusa-core-utils"
 import { EntityManager } from "typeorm"
 import { DefaultWorkingHourRepository } from "../repositories/default-working-hour";
 import { DefaultWorkingHour } from '../models/default-working-hour';
-import { CreateDefaultWorkingHourInput, UpdateDefaultWorkingHourInput } from '../types/default-working-hour';
+import {
+    CreateDefaultWorkingHourInput,
+    DefaultWorkingHourInterval,
+    UpdateDefaultWorkingHourInput
+} from '../types/default-working-hour';
 import { setMetadata } from '@medusajs/medusa/dist/utils';
 import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
-import { addDay, divideTimes } from '../utils/date-utils';
+import { getWallClockInterval, isIntervalOverlapping, TimeInterval } from '../utils/availability';
 
 type InjectedDependencies = {
     manager: EntityManager
@@ -139,6 +143,13 @@ class DefaultWorkingHourService extends TransactionBaseService {
                 }
             }
 
+            // the changed row can't overlap the other rows, an overnight row of the day before included
+            const others = await this.list({ location_id: defaultWorkingHour.location_id }, {})
+            this.validateWorkingHours_([
+                ...others.filter((x) => x.id !== defaultWorkingHour.id),
+                defaultWorkingHour,
+            ])
+
             const result = await defaultWorkingHourRepo.save(defaultWorkingHour)
 
             await this.eventBus_
@@ -151,8 +162,97 @@ class DefaultWorkingHourService extends TransactionBaseService {
         })
     }
 
+    /**
+     * Check the working intervals of the week don't overlap each other, closed rows are ignored
+     * an overnight interval end on the next day, so it can overlap the first interval of that day, saturday night go on sunday
+     * @param rows DefaultWorkingHour rows of one location
+     */
+    protected validateWorkingHours_(rows: (DefaultWorkingHourInterval & { is_working_day?: boolean })[]) {
+        const week = 7 * 24 * 60 * 60 * 1000
+        const checked: { row: DefaultWorkingHourInterval, interval: TimeInterval }[] = []
+
+        for (const row of rows) {
+            if (row.is_working_day === false) continue
+
+            // 1970-01-04 is a sunday, so the reference date has the same week day as the row
+            const interval = getWallClockInterval(`1970-01-${String(4 + row.day).padStart(2, "0")}`, row.from, row.to)
+
+            if (interval.from.getTime() === interval.to.getTime()) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `Working hour ${row.from} - ${row.to} on day ${row.day} is empty`
+                )
+            }
+
+            const overlapped = checked.find((x) =>
+                [-week, 0, week].some((shift) =>
+                    isIntervalOverlapping(
+                        { from: new Date(x.interval.from.getTime() + shift), to: new Date(x.interval.to.getTime() + shift) },
+                        interval
+                    )
+                )
+            )
+
+            if (overlapped) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `Working hour ${row.from} - ${row.to} on day ${row.day} overlaps the working hour ${overlapped.row.from} - ${overlapped.row.to} on day ${overlapped.row.day}`
+                )
+            }
+
+            checked.push({ row, interval })
+        }
+    }
+
+    /**
+     * Replace the whole weekly schedule of a location, a weekday can have several intervals
+     * the weekdays without any interval get a closed row, like setupDWHLocation does
+     * @param locationId location of the DefaultWorkingHour
+     * @param intervals working intervals of the week
+     */
+    async replaceDWHLocation(locationId: string, intervals: DefaultWorkingHourInterval[]): Promise<DefaultWorkingHour[]> {
+        return await this.atomicPhase_(async (manager) => {
+            this.validateWorkingHours_(intervals)
+
+            const current = await this.withTransaction(manager).list({ location_id: locationId }, {})
+            for (const x of current) {
+                await this.withTransaction(manager).delete(x.id)
+            }
+
+            const result: DefaultWorkingHour[] = []
+            for (let i = 0; i < 7; i++) {
+                const dayIntervals = intervals
+                    .filter((x) => x.day === i)
+                    .sort((a, b) => a.from.localeCompare(b.from))
+
+                if (!dayIntervals.length) {
+                    result.push(await this.withTransaction(manager).create({
+                        location_id: locationId,
+                        day: i,
+                        from: "00:00:00",
+                        to: "00:00:00",
+                        is_working_day: false,
+                    }))
+                    continue
+                }
+
+                for (const x of dayIntervals) {
+                    result.push(await this.withTransaction(manager).create({
+                        location_id: locationId,
+                        day: i,
+                        from: x.from,
+                        to: x.to,
+                        is_working_day: true,
+                    }))
+                }
+            }
+
+            return result
+        })
+    }
+
     async getDataDayExist(locationId: string) {
-        const checkDay = await this.list({ location_id: locationId })
+        const checkDay = await this.list({ location_id: locationId }, {})
         const result = []
         
         for (const x of checkDay) {
@@ -182,48 +282,31 @@ class DefaultWorkingHourService extends TransactionBaseService {
 
     // Remove DWH data After Location Get Deleted
     async deleteDWHLocation(locationId: string) {
-        const collectionDataDay = await this.list({ location_id: locationId })
+        const collectionDataDay = await this.list({ location_id: locationId }, {})
         for (const x of collectionDataDay) {
             await this.delete(x.id)
         }
     }
 
-    async getDefaultWorkingHourSlotTimesByLocationId(locationId: string) {
-        // Todo collecting divide times dwh in 1 week with array, index 0 = sunday - index 6 = saturday
-        const dwhCollection = [];
-        const dwhList = await this.list({ location_id: locationId })
-        
-        for (const dwh of dwhList) {
-            const dateCurr = new Date(1000 * 24 * 60 * 60 * (3 * (dwh.day + 1)));
-            const dayIndex = dwh.day // dateCurr.getDay();
-            const isWorkingDay = dwh.is_working_day;
-            
-            // Todo split "00:01:02" to object ["00", "01", "02"] also convert to number
-            const fromTime = dwh.from.split(":").map((a) => +a)
-            const toTime = dwh.to.split(":").map((a) => +a)
-
-            const selectSlotTimeFrom = new Date(dateCurr);
-            let selectSlotTimeTo = new Date(dateCurr);
-            selectSlotTimeFrom.setUTCHours(fromTime[0], fromTime[1], fromTime[2]);
-            selectSlotTimeTo.setUTCHours(toTime[0], toTime[1], toTime[2]);
-
-            // Todo If `from` time more than `to` time than, we should add 1 day in `to`
-            if (selectSlotTimeFrom.getTime() > selectSlotTimeTo.getTime()) {
-                selectSlotTimeTo = addDay(selectSlotTimeTo, 1);
-            }
+    /**
+     * Expand the weekly DefaultWorkingHour of a location into real intervals for each day
+     * @param locationId location of the DefaultWorkingHour
+     * @param days date keys "YYYY-MM-DD" in the time zone of the location
+     * @param timeZone IANA time zone of the location
+     */
+    async getDefaultWorkingHourIntervalsByLocationId(locationId: string, days: string[], timeZone: string) {
+        const dwhCollection: Record<string, TimeInterval[]> = {}
+        const dwhList = await this.list({ location_id: locationId }, {})
 
-            dwhCollection[dayIndex] = [];
+        for (const day of days) {
+            const dayIndex = new Date(day).getUTCDay() // UTC midnight, the UTC fields are used as wall clock time
 
-            if (isWorkingDay) {
-                const defaultWorkingHour = divideTimes(selectSlotTimeFrom, selectSlotTimeTo, 5);
-                let dayNumber = 0;
+            dwhCollection[day] = []
 
-                for (const dateEntry of Object.entries(defaultWorkingHour)) {
-                const [dateKey, dateTimeList] = dateEntry;
+            for (const dwh of dwhList) {
+                if (dwh.day != dayIndex || !dwh.is_working_day) continue
 
-                dwhCollection[dayIndex][dayNumber] = dateTimeList;
-                dayNumber++;
-                }
+                dwhCollection[day].push(getWallClockInterval(day, dwh.from, dwh.to, timeZone))
             }
         }
 
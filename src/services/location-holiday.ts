@@ -0,0 +1,338 @@
+import { EventBusService, TransactionBaseService } from '@medusajs/medusa';
+import { formatException } from '@medusajs/medusa/dist/utils/exception-formatter';
+import { buildQuery } from '@medusajs/medusa/dist/utils/build-query';
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { LocationHolidayRepository } from "../repositories/location-holiday";
+import { HolidaySource, LocationHoliday } from '../models/location-holiday';
+import { Location } from '../models/location';
+import {
+    ImportLocationHolidaysInput,
+    ImportLocationHolidaysResult,
+    UpdateLocationHolidayInput,
+    UpsertLocationHolidayInput
+} from '../types/location-holiday';
+import { setMetadata } from '@medusajs/medusa/dist/utils';
+import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
+import { getBundledHolidays } from '../utils/holidays';
+import { parseICalendar } from '../utils/ical';
+import { expandRecurrence } from '../utils/recurrence';
+import { addDay, formatDate, fromZonedTime } from '../utils/date-utils';
+
+type InjectedDependencies = {
+    manager: EntityManager
+    locationHolidayRepository: typeof LocationHolidayRepository
+    eventBusService: EventBusService
+}
+
+class LocationHolidayService extends TransactionBaseService {
+    protected manager_: EntityManager
+    protected transactionManager_: EntityManager | undefined
+
+    protected readonly locationHolidayRepository_: typeof LocationHolidayRepository
+    protected readonly eventBus_: EventBusService
+
+    static readonly IndexName = `locationholidays`
+    static readonly Events = {
+        UPDATED: "location-holiday.updated",
+        CREATED: "location-holiday.created",
+        DELETED: "location-holiday.deleted",
+        IMPORTED: "location-holiday.imported",
+    }
+
+    constructor({ manager, locationHolidayRepository, eventBusService }: InjectedDependencies) {
+        super(arguments[0]);
+
+        this.manager_ = manager;
+        this.locationHolidayRepository_ = locationHolidayRepository;
+        this.eventBus_ = eventBusService;
+    }
+
+    async list(
+        selector: Selector<LocationHoliday>,
+        config: FindConfig<LocationHoliday> = {
+          skip: 0,
+          take: 50,
+          relations: [],
+        }
+      ): Promise<LocationHoliday[]> {
+        const locationHolidayRepo = this.manager_.getCustomRepository(this.locationHolidayRepository_)
+
+        const query = buildQuery(selector, config)
+
+        return locationHolidayRepo.find(query)
+    }
+
+    async retrieve(locationHolidayId: string, config: FindConfig<LocationHoliday> = {}) {
+        const manager = this.manager_
+        const locationHolidayRepo = manager.getCustomRepository(this.locationHolidayRepository_)
+
+        const locationHoliday = await locationHolidayRepo.findOne(locationHolidayId, config)
+
+        if (!locationHoliday) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `LocationHoliday with ${locationHolidayId} was not found`
+            )
+        }
+
+        return locationHoliday
+    }
+
+    async delete(locationHolidayId: string): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            const locationHolidayRepo = manager.getCustomRepository(this.locationHolidayRepository_)
+
+            const locationHoliday = await locationHolidayRepo.findOne(
+                { id: locationHolidayId },
+                {}
+            )
+
+            if (!locationHoliday) {
+                return
+            }
+
+            await locationHolidayRepo.softRemove(locationHoliday)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(LocationHolidayService.Events.DELETED, {
+                    id: locationHolidayId,
+                })
+
+            return Promise.resolve()
+        })
+    }
+
+    // used to opt out of a holiday, the holiday stay disabled when it's imported again
+    async update(
+        locationHolidayId: string,
+        update: UpdateLocationHolidayInput
+    ): Promise<LocationHoliday> {
+        return await this.atomicPhase_(async (manager) => {
+            const locationHolidayRepo = manager.getCustomRepository(this.locationHolidayRepository_)
+
+            const locationHoliday = await this.retrieve(locationHolidayId, {})
+
+            const {
+                metadata,
+                ...rest
+            } = update
+
+            if (metadata) {
+                locationHoliday.metadata = setMetadata(locationHoliday, metadata)
+            }
+
+            for (const [key, value] of Object.entries(rest)) {
+                if (typeof value !== `undefined`) {
+                    locationHoliday[key] = value
+                }
+            }
+
+            const result = await locationHolidayRepo.save(locationHoliday)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(LocationHolidayService.Events.UPDATED, {
+                    id: result.id,
+                    fields: Object.keys(update),
+                })
+            return result
+        })
+    }
+
+    /**
+     * Create or update the holidays of one source, matched by uid, so is_enabled is kept between imports
+     * @param locationId location of the holidays
+     * @param source where the holidays come from
+     * @param holidays the imported holidays
+     * @param replace existing holidays of the source which are not imported anymore, they are removed
+     */
+    protected async upsert_(
+        locationId: string,
+        source: HolidaySource,
+        holidays: UpsertLocationHolidayInput[],
+        replace: LocationHoliday[]
+    ): Promise<ImportLocationHolidaysResult> {
+        return await this.atomicPhase_(async (manager) => {
+            const locationHolidayRepo = manager.getCustomRepository(this.locationHolidayRepository_)
+            const result: ImportLocationHolidaysResult = { created: 0, updated: 0, removed: 0 }
+
+            const existing = await this.withTransaction(manager).list({ location_id: locationId, source }, {})
+            const existingByUid = new Map(existing.map((x) => [x.uid, x]))
+            const imported = new Set<string>()
+
+            for (const holiday of holidays) {
+                if (imported.has(holiday.uid)) continue
+                imported.add(holiday.uid)
+
+                const current = existingByUid.get(holiday.uid)
+
+                if (!current) {
+                    const created = locationHolidayRepo.create({
+                        ...holiday,
+                        location_id: locationId,
+                        source,
+                        is_enabled: true,
+                    })
+                    await locationHolidayRepo.save(created)
+                    result.created++
+                    continue
+                }
+
+                if (current.date !== holiday.date || current.name !== holiday.name) {
+                    current.date = holiday.date
+                    current.name = holiday.name
+                    await locationHolidayRepo.save(current)
+                    result.updated++
+                }
+            }
+
+            const removed = replace.filter((x) => !imported.has(x.uid))
+            if (removed.length) {
+                await locationHolidayRepo.softRemove(removed)
+                result.removed = removed.length
+            }
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(LocationHolidayService.Events.IMPORTED, {
+                    location_id: locationId,
+                    source,
+                    ...result,
+                })
+
+            return result
+        })
+    }
+
+    /**
+     * Import the bundled holidays for the country and province of the location
+     * @param location location with country_code and province
+     * @param years years to import
+     */
+    async importBundled(location: Location, years: number[]): Promise<ImportLocationHolidaysResult> {
+        if (!location.country_code) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                `Location with ${location.id} has no country_code`
+            )
+        }
+
+        const holidays: UpsertLocationHolidayInput[] = years.flatMap((year) =>
+            getBundledHolidays(location.country_code, location.province, year).map((h) => ({
+                date: h.date,
+                name: h.name,
+                uid: `${location.country_code.toLowerCase()}:${h.key}:${year}`,
+            }))
+        )
+
+        // only the imported years are replaced
+        const existing = await this.list({ location_id: location.id, source: HolidaySource.BUNDLED }, {})
+        const replace = existing.filter((x) => years.includes(+x.date.slice(0, 4)))
+
+        return await this.upsert_(location.id, HolidaySource.BUNDLED, holidays, replace)
+    }
+
+    /**
+     * Import the events of an iCalendar file as holidays, every day an event covers is a holiday
+     * the uids of the holidays start with the key of the file, a re-import with the same key replace the holidays of this file only
+     * @param location location of the holidays, its time zone is used for floating times
+     * @param content content of the .ics file
+     * @param years years the recurring events are expanded for
+     * @param key identify the file, without it nothing is removed
+     */
+    async importICalendar(
+        location: Location,
+        content: string,
+        years: number[],
+        key?: string
+    ): Promise<ImportLocationHolidaysResult> {
+        const prefix = key ? `${key}:` : ""
+        const timeZone = location.timezone || "UTC"
+        const events = parseICalendar(content, timeZone).filter((e) => e.status !== "CANCELLED")
+
+        const rangeFrom = fromZonedTime(new Date(`${Math.min(...years)}-01-01`), timeZone)
+        const rangeTo = fromZonedTime(new Date(`${Math.max(...years) + 1}-01-01`), timeZone)
+
+        const holidays: UpsertLocationHolidayInput[] = []
+
+        for (const event of events) {
+            const occurrences = event.rrule
+                ? expandRecurrence(
+                    { from: event.start, to: event.end, rrule: event.rrule, exdates: event.exdates, timezone: timeZone },
+                    rangeFrom,
+                    rangeTo
+                )
+                : [{ from: event.start, to: event.end }]
+
+            for (const occurrence of occurrences) {
+                const days: string[] = []
+                const lastDay = formatDate(
+                    new Date(Math.max(occurrence.from.getTime(), occurrence.to.getTime() - 1)),
+                    timeZone
+                )
+
+                for (let day = formatDate(occurrence.from, timeZone); day <= lastDay; day = formatDate(addDay(day, 1))) {
+                    days.push(day)
+                }
+
+                for (const day of days) {
+                    holidays.push({
+                        date: day,
+                        name: event.summary || "Holiday",
+                        uid: prefix + (event.rrule || days.length > 1 ? `${event.uid}:${day}` : event.uid),
+                    })
+                }
+            }
+        }
+
+        const replace = key
+            ? (await this.list({ location_id: location.id, source: HolidaySource.ICAL }, {}))
+                .filter((x) => x.uid.startsWith(prefix))
+            : []
+
+        return await this.upsert_(location.id, HolidaySource.ICAL, holidays, replace)
+    }
+
+    async import(location: Location, data: ImportLocationHolidaysInput): Promise<ImportLocationHolidaysResult> {
+        const thisYear = new Date().getUTCFullYear()
+        const years = data.years?.length ? data.years : [thisYear, thisYear + 1]
+
+        if (data.source === HolidaySource.ICAL) {
+            if (!data.ics) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `An iCalendar file is required to import holidays from ical`
+                )
+            }
+
+            return await this.importICalendar(location, data.ics, years, data.ics_key)
+        }
+
+        return await this.importBundled(location, years)
+    }
+
+    // Remove holiday data After Location Get Deleted
+    async deleteByLocationId(locationId: string) {
+        const holidays = await this.list({ location_id: locationId }, {})
+        for (const x of holidays) {
+            await this.delete(x.id)
+        }
+    }
+
+    /**
+     * Get the days which are enabled holidays of a location
+     * @param locationId location of the holidays
+     * @param days date keys "YYYY-MM-DD" in the time zone of the location
+     */
+    async getHolidayDaysByLocationId(locationId: string, days: string[]): Promise<string[]> {
+        if (!days.length) return []
+
+        const holidays = await this.list({ location_id: locationId, date: days, is_enabled: true }, {})
+
+        return [...new Set(holidays.map((x) => x.date))]
+    }
+}
+
+export default LocationHolidayService;
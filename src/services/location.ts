@@ -2,7 +2,7 @@ import { EventBusService, TransactionBaseService } from "@medusajs/medusa";
 import { formatException } from "@medusajs/medusa/dist/utils/exception-formatter";
 import { buildQuery } from "@medusajs/medusa/dist/utils/build-query";
 import { MedusaError } from "medusa-core-utils";
-import { EntityManager } from "typeorm";
+import { EntityManager, MoreThan } from "typeorm";
 import { LocationRepository } from "../repositories/location";
 import { Location } from "../models/location";
 import { CreateLocationInput, UpdateLocationInput } from "../types/location";
@@ -13,14 +13,32 @@ import CalendarService from "./calendar";
 import {
   addDay,
   countDays,
-  divideTimes,
   formatDate,
+  fromZonedTime,
   subDay,
+  toZonedTime,
   zeroTimes,
 } from "../utils/date-utils";
-import { union, includes } from "lodash";
+import {
+  clipIntervals,
+  isIntervalOverlapping,
+  mergeIntervals,
+  renderSlotTimes,
+  subtractIntervals,
+  TimeInterval,
+} from "../utils/availability";
 import DefaultWorkingHourService from "./default-working-hour";
+import OpeningHourOverrideService from "./opening-hour-override";
+import LocationHolidayService from "./location-holiday";
 import ServiceSettingService from "./service-setting";
+import { Calendar } from "../models/calendar";
+import {
+  Availability,
+  BookingWindow,
+  SlotBuffer,
+  SlotConfig,
+} from "../types/location";
+import { ServiceTime } from "../types/appointment";
 
 type InjectedDependencies = {
   manager: EntityManager;
@@ -29,6 +47,8 @@ type InjectedDependencies = {
   calendarService: CalendarService;
   calendarTimeperiodService: CalendarTimeperiodService;
   defaultWorkingHourService: DefaultWorkingHourService;
+  openingHourOverrideService: OpeningHourOverrideService;
+  locationHolidayService: LocationHolidayService;
   serviceSettingService: ServiceSettingService;
 };
 
@@ -41,6 +61,8 @@ class LocationService extends TransactionBaseService {
   protected readonly calendar_: CalendarService;
   protected readonly calendarTimeperiod_: CalendarTimeperiodService;
   protected readonly defaultWorkingHour_: DefaultWorkingHourService;
+  protected readonly openingHourOverride_: OpeningHourOverrideService;
+  protected readonly locationHoliday_: LocationHolidayService;
   protected readonly setting_: ServiceSettingService;
 
   static readonly IndexName = `locations`;
@@ -57,6 +79,8 @@ class LocationService extends TransactionBaseService {
     calendarService,
     calendarTimeperiodService,
     defaultWorkingHourService,
+    openingHourOverrideService,
+    locationHolidayService,
     serviceSettingService
   }: InjectedDependencies) {
     super(arguments[0]);
@@ -67,6 +91,8 @@ class LocationService extends TransactionBaseService {
     this.calendar_ = calendarService;
     this.calendarTimeperiod_ = calendarTimeperiodService;
     this.defaultWorkingHour_ = defaultWorkingHourService;
+    this.openingHourOverride_ = openingHourOverrideService;
+    this.locationHoliday_ = locationHolidayService;
     this.setting_ = serviceSettingService;
   }
 
@@ -193,164 +219,270 @@ class LocationService extends TransactionBaseService {
     });
   }
 
-  // Todo Merge DWH to empty WorkingTimes
-  mergeDefaultWorkingHourToWorkingSlotTimes(dwhSlotTimes, workingSlotTimes) {
-    for (const workingTime of Object.entries(workingSlotTimes)) {
-      const [wtKey, wtList] = workingTime
-      const dayIndex = new Date(wtKey).getDay();
+  // calendar time zone take precedence over the location one
+  resolveTimezone(calendar: Calendar, location: Location): string {
+    return calendar.timezone || location.timezone || "UTC";
+  }
 
-      const prevDay = new Date(subDay(wtKey, 1));
-      const prevDayKey = formatDate(prevDay);
-      const prevDayIndex = prevDay.getDay();
+  // time zone of a calendar without knowing the location, the first location linked through division is used
+  async retrieveTimezoneByCalendarId(calendarId: string): Promise<string> {
+    const calendar = await this.calendar_.retrieve(calendarId, {});
+    if (calendar.timezone) return calendar.timezone;
 
-      // Todo Checking if it's data from DefaultWorkingHour not WorkingHour CalendarTimeperiod
-      let isDataHaveDWHFromPrevDay = false;
+    const locationRepo = this.manager_.getCustomRepository(this.locationRepository_);
+    const location = await locationRepo
+      .createQueryBuilder("location")
+      .innerJoin("location.calendars", "calendar", "calendar.id = :calendarId", { calendarId })
+      .getOne();
 
-      if (dwhSlotTimes[prevDayIndex].length > 1) {
-        let i = 0;
-        for (const prevDaySlotTime of dwhSlotTimes[prevDayIndex][0]) {
-          if (includes(workingSlotTimes[prevDayKey], prevDaySlotTime)) i++;
-        }
-        let i2 = 0;
-        for (const nextDaySlotTime of dwhSlotTimes[prevDayIndex][1]) {
-          if (includes(workingSlotTimes[wtKey], nextDaySlotTime)) i2++;
-        }
-        // double check to make sure it's actually dwh (need to make sure this is correct way to check dwh)
-        if (
-          dwhSlotTimes[prevDayIndex][0].length == i &&
-          dwhSlotTimes[prevDayIndex][1].length == i2
-        ) {
-          isDataHaveDWHFromPrevDay = true;
-        }
-      }
+    return location?.timezone || "UTC";
+  }
 
-      // Todo if workingSlotTimes empty it's gonna add DefaultWorkingHour
-      if (workingSlotTimes[wtKey].length == 0 || isDataHaveDWHFromPrevDay) {
-        workingSlotTimes[wtKey] = union(workingSlotTimes[wtKey], dwhSlotTimes[dayIndex][0]);
+  // calendar slot setting take precedence over the location one, alignment default to the slot interval
+  resolveSlotConfig(calendar: Calendar, location: Location): SlotConfig {
+    const slotInterval =
+      calendar.slot_interval_min || location.slot_interval_min || 5;
+
+    return {
+      timezone: this.resolveTimezone(calendar, location),
+      slot_interval_min: slotInterval,
+      slot_alignment_min:
+        calendar.slot_alignment_min ||
+        location.slot_alignment_min ||
+        slotInterval,
+      buffer_before_min: calendar.buffer_before_min || 0,
+      buffer_after_min: calendar.buffer_after_min || 0,
+      min_notice_min: calendar.min_notice_min ?? location.min_notice_min ?? 0,
+      max_horizon_days: calendar.max_horizon_days ?? location.max_horizon_days ?? null,
+      same_day_cutoff: calendar.same_day_cutoff ?? location.same_day_cutoff ?? null,
+    };
+  }
 
-        // Todo Add for Nextday
-        if (dwhSlotTimes[dayIndex].length > 1) {
-          const nextDay = new Date(addDay(wtKey, 1));
-          const nextDayKey = formatDate(nextDay);
-          workingSlotTimes[nextDayKey] = union(workingSlotTimes[nextDayKey], dwhSlotTimes[dayIndex][1]);
-        }
+  /**
+   * Calculate from when until when an appointment can start, based on the minimum notice, same day cutoff and maximum horizon
+   * @param slotConfig resolved setting of the calendar
+   * @param now the current time
+   */
+  getBookingWindow(slotConfig: SlotConfig, now: Date = new Date()): BookingWindow {
+    const noticeUntil = new Date(now.getTime() + slotConfig.min_notice_min * 60 * 1000);
+    let cutoffUntil: Date | null = null;
+
+    // after the cutoff time, nothing can be booked for today anymore
+    if (slotConfig.same_day_cutoff) {
+      const zonedNow = toZonedTime(now, slotConfig.timezone);
+      const cutoffTime = slotConfig.same_day_cutoff.split(":").map((a) => +a);
+      const cutoff = zeroTimes(zonedNow);
+      cutoff.setUTCHours(cutoffTime[0], cutoffTime[1], cutoffTime[2] || 0);
+
+      if (zonedNow.getTime() >= cutoff.getTime()) {
+        cutoffUntil = fromZonedTime(addDay(zeroTimes(zonedNow), 1), slotConfig.timezone);
       }
     }
 
-    return workingSlotTimes;
+    const latestStart = slotConfig.max_horizon_days
+      ? addDay(now, slotConfig.max_horizon_days)
+      : null;
+
+    return {
+      earliest_start: cutoffUntil && cutoffUntil > noticeUntil ? cutoffUntil : noticeUntil,
+      latest_start: latestStart,
+      notice_until: noticeUntil,
+      same_day_closed_until: cutoffUntil,
+    };
+  }
+
+  // buffer set on the services take precedence over the buffer of the calendar
+  resolveBuffer(slotConfig: SlotConfig, serviceTime?: Partial<ServiceTime>): SlotBuffer {
+    return {
+      before: serviceTime?.buffer_before_min ?? slotConfig.buffer_before_min,
+      after: serviceTime?.buffer_after_min ?? slotConfig.buffer_after_min,
+    };
   }
 
-  async getSlotTime_(calendarId: string, locationId: string, from, to) {
-    const dateFrom = new Date(
-      from ? zeroTimes(subDay(from, 1)) : zeroTimes(new Date())
+  // Todo Merge DWH to the days that don't have working hour CalendarTimeperiod, an opening hour override replace the DWH of its day
+  mergeDefaultWorkingHourToWorkingSlotTimes(
+    dwhIntervals: Record<string, TimeInterval[]>,
+    workingIntervals: TimeInterval[],
+    timeZone: string,
+    overrideIntervals: Record<string, TimeInterval[]> = {}
+  ): TimeInterval[] {
+    const result = [...workingIntervals];
+
+    for (const [dayKey, dwhDayIntervals] of Object.entries(dwhIntervals)) {
+      const dayIntervals = overrideIntervals[dayKey] ?? dwhDayIntervals;
+
+      const day = {
+        from: fromZonedTime(new Date(dayKey), timeZone),
+        to: fromZonedTime(addDay(dayKey, 1), timeZone),
+      };
+
+      // Todo if the day don't have any working hour it's gonna add DefaultWorkingHour, including the part going to the next day
+      const isDayHaveWorkingHour = workingIntervals.some((wt) =>
+        isIntervalOverlapping(wt, day)
+      );
+
+      if (!isDayHaveWorkingHour) result.push(...dayIntervals);
+    }
+
+    return mergeIntervals(result);
+  }
+
+  /**
+   * Calculate the available time of a calendar as merged intervals (working time minus blocked time)
+   * @param calendarId calendar to check
+   * @param locationId location of the calendar, used for DefaultWorkingHour and time zone
+   * @param from start of the range, default today
+   * @param to end of the range, default 4 weeks after from
+   * @param excludeTimeperiodIds timeperiods which don't block, like the hold of the booking being checked
+   */
+  async getAvailability_(
+    calendarId: string,
+    locationId: string,
+    from?,
+    to?,
+    excludeTimeperiodIds: string[] = []
+  ): Promise<Availability> {
+    const calendar = await this.calendar_.retrieve(calendarId, {})
+    const location = await this.retrieve(locationId, {})
+    const slotConfig = this.resolveSlotConfig(calendar, location)
+    const timeZone = slotConfig.timezone
+
+    // the days are the dates in the time zone of the location, the UTC fields of dayFrom and dayTo hold the wall clock time
+    const dayFrom = zeroTimes(
+      toZonedTime(from ? subDay(from, 1) : new Date(), timeZone)
     ); // zeroTimes set all time to 00:00:00
-    let dateTo = new Date(
-      to
-        ? zeroTimes(addDay(to, 1))
-        : zeroTimes(new Date().setUTCDate(dateFrom.getDate() + 28))
+    let dayTo = zeroTimes(
+      to ? addDay(toZonedTime(to, timeZone), 1) : addDay(dayFrom, 28)
     ); // 28 = 4 weeks
 
-    const availableSlotTimes = [];
-    const workingSlotTimes = {}; // calendarTimeperiod
-    const blockedSlotTimes = {}; // calendarTimeperiod
-    const divideBy = 5; // 5 minutes
+    const dateFrom = fromZonedTime(dayFrom, timeZone);
+    let dateTo = fromZonedTime(dayTo, timeZone);
+
     const maxSlotTime = new Date((await this.setting_.get('automation_max_slot_date_time')).value)
 
-    if (dateTo > maxSlotTime) dateTo = maxSlotTime
+    if (dateTo > maxSlotTime) {
+      dateTo = maxSlotTime
+      dayTo = toZonedTime(maxSlotTime, timeZone)
+    }
 
-    // making object for each day in working_hour
-    for (let i = 0; i < countDays(dateFrom, dateTo); i++) {
-      const dateCurr = addDay(dateFrom, i);
-      const getKey = formatDate(dateCurr);
-      workingSlotTimes[getKey] = [];
-      blockedSlotTimes[getKey] = [];
+    const days: string[] = [];
+    for (let i = 0; i < countDays(dayFrom, dayTo); i++) {
+      days.push(formatDate(addDay(dayFrom, i)));
     }
 
-    const calendar = await this.calendar_.retrieve(calendarId, {})
-    
     // other [note]
     // work_times [working_hour]
     // blocked_times [breaktime / blocked / off]
+    // hold_times [hold], until they expire
 
-    // select working_time and blocked_time
-    const blockedTimePeriods = await this.calendarTimeperiod_.list(
+    // select working_time and blocked_time which overlap the range, recurring ones are expanded to their occurrences
+    const blockedTimePeriods = await this.calendarTimeperiod_.listOccurrences(
       {
         calendar_id: calendar.id,
-        from: { gte: dateFrom, lte: dateTo },
-        to: { gte: dateFrom, lte: dateTo },
         type: ["breaktime", "blocked", "off"],
       },
-      { order: { from: "DESC" } }
+      dateFrom,
+      dateTo
+    );
+    const holdTimePeriods = await this.calendarTimeperiod_.listOccurrences(
+      {
+        calendar_id: calendar.id,
+        type: "hold",
+        // a FindOperator, a { gt } would share its parameter name with an other filter of the query
+        expires_at: MoreThan(new Date().toISOString()),
+      },
+      dateFrom,
+      dateTo
     );
-    const workingTimePeriods = await this.calendarTimeperiod_.list(
+    const workingTimePeriods = await this.calendarTimeperiod_.listOccurrences(
       {
         calendar_id: calendar.id,
-        from: { gte: dateFrom, lte: dateTo },
-        to: { gte: dateFrom, lte: dateTo },
         type: "working_hour",
       },
-      { order: { from: "DESC" } }
+      dateFrom,
+      dateTo
     );
 
-    // divide into hours by 5 minutes and day as key object
+    const toInterval = (tp) => ({ from: new Date(tp.from), to: new Date(tp.to) });
 
-    // working time
-    for (const workingTimePeriod of workingTimePeriods) {
-      const resultDivide = divideTimes(
-        workingTimePeriod.from,
-        workingTimePeriod.to,
-        divideBy
+    // preparing and merge workingtimes with dwh
+    const dwhIntervals =
+      await this.defaultWorkingHour_.getDefaultWorkingHourIntervalsByLocationId(
+        locationId,
+        days,
+        timeZone
       );
-      for (const dateEntry of Object.entries(resultDivide)) {
-        const [dateKey, dateTimeList] = dateEntry;
-
-        workingSlotTimes[dateKey] = union(
-          workingSlotTimes[dateKey],
-          // @ts-ignore
-          dateTimeList
-        );
-      }
-    }
-
-    // blocked time
-    for (const blockedTimePeriod of blockedTimePeriods) {
-      const resultDivide = divideTimes(blockedTimePeriod.from, blockedTimePeriod.to, divideBy);
-      for (const dateEntry of Object.entries(resultDivide)) {
-        const [dateKey, dateTimeList] = dateEntry;
-
-        blockedSlotTimes[dateKey] = union(
-          blockedSlotTimes[dateKey],
-          // @ts-ignore
-          dateTimeList
-        );
-      }
-    }
+    const overrideIntervals =
+      await this.openingHourOverride_.getOverrideIntervalsByLocationId(
+        locationId,
+        days,
+        timeZone
+      );
+    const workingIntervals = this.mergeDefaultWorkingHourToWorkingSlotTimes(
+      dwhIntervals,
+      workingTimePeriods.map(toInterval),
+      timeZone,
+      overrideIntervals
+    );
 
-    // preparing and merge workingtimes with dwh
-    const dwhSlotTimes = await this.defaultWorkingHour_.getDefaultWorkingHourSlotTimesByLocationId(locationId);
-    const mergeDWHResult = this.mergeDefaultWorkingHourToWorkingSlotTimes(dwhSlotTimes, workingSlotTimes);
+    // a holiday close the whole day, unless the day has its own opening hour override
+    const holidayDays = await this.locationHoliday_.getHolidayDaysByLocationId(
+      locationId,
+      days
+    );
+    const holidayIntervals = holidayDays
+      .filter((day) => !overrideIntervals[day])
+      .map((day) => ({
+        from: fromZonedTime(new Date(day), timeZone),
+        to: fromZonedTime(addDay(day, 1), timeZone),
+      }));
+
+    // working time minus blocked time
+    const intervals = clipIntervals(
+      subtractIntervals(workingIntervals, [
+        ...[...blockedTimePeriods, ...holdTimePeriods]
+          .filter((tp) => !excludeTimeperiodIds.includes(tp.id))
+          .map(toInterval),
+        ...holidayIntervals,
+      ]),
+      dateFrom,
+      dateTo
+    );
 
-    // filter working time with blocked time and if there no day
-    for (const workingSlotTime of Object.entries(mergeDWHResult)) {
-      const [wtKey, wtTimeList] = workingSlotTime
+    return {
+      ...slotConfig,
+      booking_window: this.getBookingWindow(slotConfig),
+      from: dateFrom,
+      to: dateTo,
+      days,
+      intervals,
+    };
+  }
 
-      let availableObject = {
-        date: wtKey,
-        slot_times: [],
-      };
+  // render the available intervals as bookable start times per day, the buffer around the service is kept free
+  renderAvailability(availability: Availability, serviceTime?: Partial<ServiceTime>) {
+    const buffer = this.resolveBuffer(availability, serviceTime);
 
-      availableObject.slot_times = !blockedSlotTimes[wtKey]
-        ? mergeDWHResult[wtKey]
-        : (availableObject.slot_times = mergeDWHResult[wtKey].filter(
-            (st) => !blockedSlotTimes[wtKey].includes(st)
-          ));
-      
-      availableObject.slot_times.sort(); // sort the slot_times
+    return renderSlotTimes(
+      availability.intervals,
+      availability.days,
+      availability.timezone,
+      {
+        interval: availability.slot_interval_min,
+        alignment: availability.slot_alignment_min,
+        duration: serviceTime?.duration_min,
+        buffer_before: buffer.before,
+        buffer_after: buffer.after,
+        earliest_start: availability.booking_window.earliest_start,
+        latest_start: availability.booking_window.latest_start,
+      }
+    );
+  }
 
-      availableSlotTimes.push(availableObject);
-    }
+  async getSlotTime_(calendarId: string, locationId: string, from, to, serviceTime?: Partial<ServiceTime>) {
+    const availability = await this.getAvailability_(calendarId, locationId, from, to);
 
-    return availableSlotTimes;
+    return this.renderAvailability(availability, serviceTime);
   }
 
   async getSlotTime(
@@ -361,7 +493,7 @@ class LocationService extends TransactionBaseService {
   ) {
     let slotTimes = []
 
-    const { calendar_id } = config
+    const { calendar_id, service_time } = config
 
     const location = await this.retrieve(locationId, {
       relations: ["company", "calendars", "default_working_hour"],
@@ -374,10 +506,17 @@ class LocationService extends TransactionBaseService {
       );
     
     for (const calendar of location.calendars) {
-      const getSlotTime_ = await this.getSlotTime_(calendar.id, locationId, from, to)
+      const availability = await this.getAvailability_(calendar.id, locationId, from, to)
+      const buffer = this.resolveBuffer(availability, service_time)
       let slotTimeObject = {
         ...calendar,
-        available_times: getSlotTime_
+        timezone: availability.timezone,
+        slot_interval_min: availability.slot_interval_min,
+        slot_alignment_min: availability.slot_alignment_min,
+        buffer_before_min: buffer.before,
+        buffer_after_min: buffer.after,
+        available_intervals: availability.intervals,
+        available_times: this.renderAvailability(availability, service_time)
       }
       slotTimes.push(slotTimeObject)
     }
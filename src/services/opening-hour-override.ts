@@ -0,0 +1,224 @@
+import { EventBusService, TransactionBaseService } from '@medusajs/medusa';
+import { formatException } from '@medusajs/medusa/dist/utils/exception-formatter';
+import { buildQuery } from '@medusajs/medusa/dist/utils/build-query';
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { OpeningHourOverrideRepository } from "../repositories/opening-hour-override";
+import { OpeningHourOverride } from '../models/opening-hour-override';
+import { CreateOpeningHourOverrideInput, UpdateOpeningHourOverrideInput } from '../types/opening-hour-override';
+import { setMetadata } from '@medusajs/medusa/dist/utils';
+import { FindConfig, Selector } from '@medusajs/medusa/dist/types/common';
+import { getWallClockInterval, TimeInterval } from '../utils/availability';
+
+type InjectedDependencies = {
+    manager: EntityManager
+    openingHourOverrideRepository: typeof OpeningHourOverrideRepository
+    eventBusService: EventBusService
+}
+
+class OpeningHourOverrideService extends TransactionBaseService {
+    protected manager_: EntityManager
+    protected transactionManager_: EntityManager | undefined
+
+    protected readonly openingHourOverrideRepository_: typeof OpeningHourOverrideRepository
+    protected readonly eventBus_: EventBusService
+
+    static readonly IndexName = `openinghouroverrides`
+    static readonly Events = {
+        UPDATED: "opening-hour-override.updated",
+        CREATED: "opening-hour-override.created",
+        DELETED: "opening-hour-override.deleted",
+    }
+
+    constructor({ manager, openingHourOverrideRepository, eventBusService }: InjectedDependencies) {
+        super(arguments[0]);
+
+        this.manager_ = manager;
+        this.openingHourOverrideRepository_ = openingHourOverrideRepository;
+        this.eventBus_ = eventBusService;
+    }
+
+    async list(
+        selector: Selector<OpeningHourOverride>,
+        config: FindConfig<OpeningHourOverride> = {
+          skip: 0,
+          take: 50,
+          relations: [],
+        }
+      ): Promise<OpeningHourOverride[]> {
+        const openingHourOverrideRepo = this.manager_.getCustomRepository(this.openingHourOverrideRepository_)
+
+        const query = buildQuery(selector, config)
+
+        return openingHourOverrideRepo.find(query)
+    }
+
+    async retrieve(openingHourOverrideId: string, config: FindConfig<OpeningHourOverride> = {}) {
+        const manager = this.manager_
+        const openingHourOverrideRepo = manager.getCustomRepository(this.openingHourOverrideRepository_)
+
+        const openingHourOverride = await openingHourOverrideRepo.findOne(openingHourOverrideId, config)
+
+        if (!openingHourOverride) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `OpeningHourOverride with ${openingHourOverrideId} was not found`
+            )
+        }
+
+        return openingHourOverride
+    }
+
+    // a working day need opening hours, a closed day can't have any
+    protected validateHours_(openingHourOverride: OpeningHourOverride) {
+        if (openingHourOverride.is_working_day && !openingHourOverride.hours?.length) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `Opening hours are required for a working day`
+            )
+        }
+
+        if (!openingHourOverride.is_working_day) {
+            openingHourOverride.hours = []
+        }
+
+        return openingHourOverride
+    }
+
+    // one override per location and day
+    protected async validateDate_(locationId: string, date: string, openingHourOverrideId?: string) {
+        const [existing] = await this.list({ location_id: locationId, date })
+
+        if (existing && existing.id !== openingHourOverrideId) {
+            throw new MedusaError(
+                MedusaError.Types.DUPLICATE_ERROR,
+                `Location with ${locationId} already has an opening hour override on ${date}`
+            )
+        }
+    }
+
+    async create(openingHourOverrideObject: CreateOpeningHourOverrideInput): Promise<OpeningHourOverride> {
+        return await this.atomicPhase_(async (manager) => {
+            const openingHourOverrideRepo = manager.getCustomRepository(this.openingHourOverrideRepository_)
+
+            const {
+                ...rest
+            } = openingHourOverrideObject
+
+            await this.validateDate_(rest.location_id, rest.date)
+
+            try {
+                let openingHourOverride: any = this.validateHours_(openingHourOverrideRepo.create(rest))
+                openingHourOverride = await openingHourOverrideRepo.save(openingHourOverride)
+
+                const result = await this.retrieve(openingHourOverride.id, {})
+
+                await this.eventBus_
+                    .withTransaction(manager)
+                    .emit(OpeningHourOverrideService.Events.CREATED, {
+                        id: result.id,
+                    })
+                return result
+            } catch (error) {
+                throw formatException(error)
+            }
+        })
+    }
+
+    async delete(openingHourOverrideId: string): Promise<void> {
+        return await this.atomicPhase_(async (manager) => {
+            const openingHourOverrideRepo = manager.getCustomRepository(this.openingHourOverrideRepository_)
+
+            const openingHourOverride = await openingHourOverrideRepo.findOne(
+                { id: openingHourOverrideId },
+                {}
+            )
+
+            if (!openingHourOverride) {
+                return
+            }
+
+            await openingHourOverrideRepo.softRemove(openingHourOverride)
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(OpeningHourOverrideService.Events.DELETED, {
+                    id: openingHourOverrideId,
+                })
+
+            return Promise.resolve()
+        })
+    }
+
+    async update(
+        openingHourOverrideId: string,
+        update: UpdateOpeningHourOverrideInput
+    ): Promise<OpeningHourOverride> {
+        return await this.atomicPhase_(async (manager) => {
+            const openingHourOverrideRepo = manager.getCustomRepository(this.openingHourOverrideRepository_)
+
+            const openingHourOverride = await this.retrieve(openingHourOverrideId, {})
+
+            const {
+                metadata,
+                ...rest
+            } = update
+
+            if (rest.date) {
+                await this.validateDate_(openingHourOverride.location_id, rest.date, openingHourOverrideId)
+            }
+
+            if (metadata) {
+                openingHourOverride.metadata = setMetadata(openingHourOverride, metadata)
+            }
+
+            for (const [key, value] of Object.entries(rest)) {
+                if (typeof value !== `undefined`) {
+                    openingHourOverride[key] = value
+                }
+            }
+
+            const result = await openingHourOverrideRepo.save(this.validateHours_(openingHourOverride))
+
+            await this.eventBus_
+                .withTransaction(manager)
+                .emit(OpeningHourOverrideService.Events.UPDATED, {
+                    id: result.id,
+                    fields: Object.keys(update),
+                })
+            return result
+        })
+    }
+
+    // Remove override data After Location Get Deleted
+    async deleteByLocationId(locationId: string) {
+        const overrides = await this.list({ location_id: locationId }, {})
+        for (const x of overrides) {
+            await this.delete(x.id)
+        }
+    }
+
+    /**
+     * Expand the overrides of a location into real intervals, only the days which have an override are in the result
+     * @param locationId location of the overrides
+     * @param days date keys "YYYY-MM-DD" in the time zone of the location
+     * @param timeZone IANA time zone of the location
+     */
+    async getOverrideIntervalsByLocationId(locationId: string, days: string[], timeZone: string) {
+        const overrideCollection: Record<string, TimeInterval[]> = {}
+
+        if (!days.length) return overrideCollection
+
+        const overrides = await this.list({ location_id: locationId, date: days }, {})
+
+        for (const override of overrides) {
+            overrideCollection[override.date] = (override.hours || []).map((h) =>
+                getWallClockInterval(override.date, h.from, h.to, timeZone)
+            )
+        }
+
+        return overrideCollection
+    }
+}
+
+export default OpeningHourOverrideService;
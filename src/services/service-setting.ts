@@ -56,6 +56,24 @@ class ServiceSettingService extends TransactionBaseService {
         return serviceSetting
     }
 
+    // value of the option, or the default value when the option is not set
+    async getValue(option: string, defaultValue: string | null = null): Promise<string | null> {
+        const manager = this.manager_
+        const serviceSettingRepo = manager.getCustomRepository(this.serviceSettingRepository_)
+
+        const serviceSetting = await serviceSettingRepo.findOne({ option: option }, {})
+
+        return serviceSetting?.value ?? defaultValue
+    }
+
+    // option used as a switch, "true", "1" or "yes" turn it on
+    async isEnabled(option: string, defaultValue: boolean = false): Promise<boolean> {
+        const value = await this.getValue(option, null)
+        if (value === null) return defaultValue
+
+        return ["true", "1", "yes"].includes(value.trim().toLowerCase())
+    }
+
     async create(option: string, value: string): Promise<ServiceSetting> {
         return await this.atomicPhase_(async (manager) => {
             const serviceSettingRepo = manager.getCustomRepository(this.serviceSettingRepository_)
@@ -0,0 +1,195 @@
+import { CartService, EventBusService, TransactionBaseService } from "@medusajs/medusa";
+import { EntityManager } from "typeorm";
+import AppointmentService from "./appointment";
+import CalendarService from "./calendar";
+import CalendarTimeperiodService from "./calendar-timeperiod";
+import ServiceSettingService from "./service-setting";
+import { CalendarTimeperiod } from "../models/calendar-timeperiod";
+import { CreateSlotHoldInput, SlotHoldContext } from "../types/slot-hold";
+
+type InjectedDependencies = {
+  manager: EntityManager;
+  eventBusService: EventBusService;
+  appointmentService: AppointmentService;
+  calendarService: CalendarService;
+  calendarTimeperiodService: CalendarTimeperiodService;
+  cartService: CartService;
+  serviceSettingService: ServiceSettingService;
+};
+
+/**
+ * Reserve a slot while the customer is in checkout, the hold is a "hold" CalendarTimeperiod which block the slot until expires_at
+ * the hold is written in cart.context.data_make_appointment, so order.placed can turn it into the appointment
+ */
+class SlotHoldService extends TransactionBaseService {
+  protected manager_: EntityManager;
+  protected transactionManager_: EntityManager | undefined;
+
+  protected readonly eventBus_: EventBusService;
+  protected readonly appointment_: AppointmentService;
+  protected readonly calendar_: CalendarService;
+  protected readonly calendarTimeperiod_: CalendarTimeperiodService;
+  protected readonly cart_: CartService;
+  protected readonly setting_: ServiceSettingService;
+
+  static readonly Events = {
+    CREATED: "slot-hold.created",
+    RELEASED: "slot-hold.released",
+    EXPIRED: "slot-hold.expired",
+  };
+
+  // minutes a hold last when slot_hold_ttl_min is not set
+  static readonly DEFAULT_TTL_MIN = 15;
+
+  constructor({
+    manager,
+    eventBusService,
+    appointmentService,
+    calendarService,
+    calendarTimeperiodService,
+    cartService,
+    serviceSettingService,
+  }: InjectedDependencies) {
+    super(arguments[0]);
+
+    this.manager_ = manager;
+    this.eventBus_ = eventBusService;
+    this.appointment_ = appointmentService;
+    this.calendar_ = calendarService;
+    this.calendarTimeperiod_ = calendarTimeperiodService;
+    this.cart_ = cartService;
+    this.setting_ = serviceSettingService;
+  }
+
+  async getTtlMin(): Promise<number> {
+    const value = await this.setting_.getValue(
+      "slot_hold_ttl_min",
+      `${SlotHoldService.DEFAULT_TTL_MIN}`
+    );
+
+    return parseInt(value) || SlotHoldService.DEFAULT_TTL_MIN;
+  }
+
+  /**
+   * Hold a slot for a cart, the previous hold of the cart is released
+   * @param cartId cart in checkout, the duration come from its items
+   * @param input location, calendar and start of the slot
+   */
+  async create(cartId: string, input: CreateSlotHoldInput): Promise<CalendarTimeperiod> {
+    const { location_id, calendar_id, slot_time } = input;
+
+    return await this.atomicPhase_(async (manager) => {
+      // wait for the other bookings and holds on the calendar
+      await this.calendar_.withTransaction(manager).retrieveForUpdate(calendar_id);
+
+      const cart = await this.cart_.withTransaction(manager).retrieve(cartId, {
+        relations: ["items"],
+      });
+      const previousHoldId = (cart.context?.data_make_appointment as SlotHoldContext)?.hold_id;
+
+      // the previous hold of the cart don't block the new one, the customer can move the hold to a near slot
+      const { blocked_from, blocked_until, buffer } = await this.appointment_
+        .withTransaction(manager)
+        .checkSlotTime_({
+          location_id,
+          calendar_id,
+          slot_time,
+          serviceTime: this.appointment_.getItemsServiceTime(cart.items),
+          excludeTimeperiodIds: previousHoldId ? [previousHoldId] : [],
+        });
+
+      if (previousHoldId) await this.calendarTimeperiod_.withTransaction(manager).delete(previousHoldId);
+
+      const expiresAt = new Date(Date.now() + (await this.getTtlMin()) * 60 * 1000);
+
+      const hold = await this.calendarTimeperiod_.withTransaction(manager).create({
+        calendar_id,
+        title: `Hold for ${cartId}`,
+        type: "hold",
+        from: blocked_from,
+        to: blocked_until,
+        expires_at: expiresAt,
+        metadata: {
+          cart_id: cartId,
+          location_id,
+          buffer_before_min: buffer.before,
+          buffer_after_min: buffer.after,
+        },
+      });
+
+      const data_make_appointment: SlotHoldContext = {
+        location_id,
+        calendar_id,
+        slot_time: new Date(slot_time).toISOString(),
+        hold_id: hold.id,
+        hold_expires_at: expiresAt.toISOString(),
+      };
+
+      await this.cart_.withTransaction(manager).update(cartId, {
+        context: { is_make_appointment: true, data_make_appointment },
+      });
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(SlotHoldService.Events.CREATED, {
+          id: hold.id,
+          cart_id: cartId,
+        });
+
+      return hold;
+    });
+  }
+
+  /**
+   * Release the hold of a cart and remove the appointment data from its context
+   */
+  async release(cartId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const cart = await this.cart_.withTransaction(manager).retrieve(cartId, {});
+      const holdId = (cart.context?.data_make_appointment as SlotHoldContext)?.hold_id;
+
+      if (holdId) {
+        await this.calendarTimeperiod_.withTransaction(manager).delete(holdId);
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(SlotHoldService.Events.RELEASED, {
+            id: holdId,
+            cart_id: cartId,
+          });
+      }
+
+      await this.cart_.withTransaction(manager).update(cartId, {
+        context: { is_make_appointment: false, data_make_appointment: null },
+      });
+    });
+  }
+
+  /**
+   * Remove the holds which expired, the availability already ignore them, this keep the calendar clean
+   * @return count of released holds
+   */
+  async releaseExpired(): Promise<number> {
+    return await this.atomicPhase_(async (manager) => {
+      const holds = await this.calendarTimeperiod_.withTransaction(manager).list(
+        { type: "hold", expires_at: { lt: new Date() } },
+        {}
+      );
+
+      for (const hold of holds) {
+        await this.calendarTimeperiod_.withTransaction(manager).delete(hold.id);
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(SlotHoldService.Events.EXPIRED, {
+            id: hold.id,
+            cart_id: hold.metadata?.cart_id,
+          });
+      }
+
+      return holds.length;
+    });
+  }
+}
+
+export default SlotHoldService;
@@ -0,0 +1,38 @@
+import { IdempotencyKey } from "@medusajs/medusa";
+import CartCompletionStrategy from "@medusajs/medusa/dist/strategies/cart-completion";
+import { CartCompletionResponse } from "@medusajs/medusa/dist/interfaces";
+import { RequestContext } from "@medusajs/medusa/dist/types/request";
+import AppointmentService from "../services/appointment";
+
+/**
+ * Medusa cart completion, the appointment data of the cart is validated first
+ * an invalid booking fail the checkout, before the payment is authorized and the order is created
+ */
+class AppointmentCartCompletionStrategy extends CartCompletionStrategy {
+  protected readonly appointment_: AppointmentService;
+
+  constructor(container) {
+    super(container);
+
+    this.appointment_ = container.appointmentService;
+  }
+
+  async complete(
+    id: string,
+    ikey: IdempotencyKey,
+    context: RequestContext
+  ): Promise<CartCompletionResponse> {
+    // a retried completion which got past the first step already have the appointment checked
+    if (ikey.recovery_point === "started") {
+      await this.manager_.transaction(async (transactionManager) => {
+        await this.appointment_
+          .withTransaction(transactionManager)
+          .validateCartAppointment(id);
+      });
+    }
+
+    return await super.complete(id, ikey, context);
+  }
+}
+
+export default AppointmentCartCompletionStrategy;
@@ -0,0 +1,82 @@
+import { EntityManager } from "typeorm";
+import { EventBusService, OrderService } from "@medusajs/medusa";
+import { PaymentStatus } from "@medusajs/medusa/dist/models/order";
+import AppointmentService from "../services/appointment";
+import ServiceSettingService from "../services/service-setting";
+import { AppointmentStatus } from "../models/appointment";
+
+type InjectedDependencies = { 
+    manager: EntityManager;
+    eventBusService: EventBusService;
+    appointmentService: AppointmentService;
+    orderService: OrderService;
+    serviceSettingService: ServiceSettingService;
+}
+
+// settings which turn the sync on or off
+export const AppointmentOrderSyncSettings = {
+    CANCEL_ON_ORDER_CANCELED: "appointment_cancel_on_order_canceled",
+    CANCEL_ON_ORDER_REFUNDED: "appointment_cancel_on_order_refunded",
+    CANCEL_ORDER_ON_CANCELED: "order_cancel_on_appointment_canceled",
+    FULFILL_ORDER_ON_FINISHED: "order_fulfill_on_appointment_finished",
+}
+
+/**
+ * Keep the appointments and their order in step
+ * order canceled / fully refunded -> appointment canceled and the slot freed
+ * appointment canceled without fee or refund -> order canceled, appointment finished -> order fulfilled
+ */
+class AppointmentOrderSyncSubscriber {
+    manager_: EntityManager;
+    appointment_: AppointmentService;
+    order_: OrderService;
+    setting_: ServiceSettingService;
+
+    constructor({ manager, eventBusService, appointmentService, orderService, serviceSettingService }: InjectedDependencies ) {
+        this.manager_ = manager;
+        this.appointment_ = appointmentService;
+        this.order_ = orderService
+        this.setting_ = serviceSettingService
+
+        eventBusService.subscribe("order.canceled", async ({ id }: { id: string }) => {
+            if (!await this.setting_.isEnabled(AppointmentOrderSyncSettings.CANCEL_ON_ORDER_CANCELED, true)) return
+
+            await this.appointment_.cancelByOrderId(id, { reason: "Order canceled" })
+        });
+
+        eventBusService.subscribe("order.refund_created", async ({ id }: { id: string }) => {
+            if (!await this.setting_.isEnabled(AppointmentOrderSyncSettings.CANCEL_ON_ORDER_REFUNDED, true)) return
+
+            // a partial refund, like the one of a cancellation fee, keep the appointment
+            const order = await this.order_.retrieve(id, { select: ["id", "payment_status"] })
+            if (order.payment_status !== PaymentStatus.REFUNDED) return
+
+            await this.appointment_.cancelByOrderId(id, { reason: "Order refunded" })
+        });
+
+        eventBusService.subscribe(AppointmentService.Events.CANCELED, async ({ id }: { id: string }) => {
+            if (!await this.setting_.isEnabled(AppointmentOrderSyncSettings.CANCEL_ORDER_ON_CANCELED, false)) return
+
+            const appointment = await this.appointment_.retrieve(id, { relations: ["order"] })
+
+            // the order pay the cancellation fee or has the refund of the appointment, and it's already canceled when it canceled the appointment
+            const cancellation = appointment.metadata?.cancellation as { fee_amount?: number, refund_amount?: number }
+            if (+cancellation?.fee_amount > 0 || +cancellation?.refund_amount > 0) return
+            if (appointment.order?.status === "canceled") return
+
+            // only when every appointment of the order is canceled
+            const [appointments] = await this.appointment_.list({ order_id: appointment.order_id }, {})
+            if (appointments.some((x) => x.status !== AppointmentStatus.CANCELED)) return
+
+            await this.order_.cancel(appointment.order_id)
+        });
+
+        eventBusService.subscribe(AppointmentService.Events.FINISHED, async ({ id }: { id: string }) => {
+            if (!await this.setting_.isEnabled(AppointmentOrderSyncSettings.FULFILL_ORDER_ON_FINISHED, false)) return
+
+            await this.appointment_.fulfillOrder(id)
+        });
+    }
+}
+
+export default AppointmentOrderSyncSubscriber;
@@ -1,21 +1,29 @@
 import { EntityManager } from "typeorm";
 import { EventBusService, OrderService } from "@medusajs/medusa";
 import DefaultWorkingHourService from "../services/default-working-hour";
+import OpeningHourOverrideService from "../services/opening-hour-override";
+import LocationHolidayService from "../services/location-holiday";
 
 type InjectedDependencies = { 
     manager: EntityManager;
     eventBusService: EventBusService;
     defaultWorkingHourService: DefaultWorkingHourService
+    openingHourOverrideService: OpeningHourOverrideService
+    locationHolidayService: LocationHolidayService
 }
 
 class OrderDoingSubscriber {
     manager_: EntityManager;
     order_: OrderService;
     dwh_: DefaultWorkingHourService;
+    openingHourOverride_: OpeningHourOverrideService;
+    locationHoliday_: LocationHolidayService;
 
-    constructor({ manager, eventBusService, defaultWorkingHourService }: InjectedDependencies ) {
+    constructor({ manager, eventBusService, defaultWorkingHourService, openingHourOverrideService, locationHolidayService }: InjectedDependencies ) {
         this.manager_ = manager;
         this.dwh_ = defaultWorkingHourService
+        this.openingHourOverride_ = openingHourOverrideService
+        this.locationHoliday_ = locationHolidayService
 
         eventBusService.subscribe("location.created", async ({ id }: { id: string }) => {
             await this.dwh_.setupDWHLocation(id)
@@ -23,6 +31,8 @@ class OrderDoingSubscriber {
 
         eventBusService.subscribe("location.deleted", async ({ id }: { id: string }) => {
             await this.dwh_.deleteDWHLocation(id)
+            await this.openingHourOverride_.deleteByLocationId(id)
+            await this.locationHoliday_.deleteByLocationId(id)
         });
     }
 }
@@ -33,7 +33,7 @@ class OrderDoingSubscriber {
 
             if (isMakeAppointment) {
                 // @ts-ignore
-                const { location_id, slot_time, calendar_id } = order.cart.context.data_make_appointment
+                const { location_id, slot_time, calendar_id, hold_id } = order.cart.context.data_make_appointment
 
                 if (!location_id || !slot_time || !calendar_id) throw new MedusaError(MedusaError.Types.INVALID_DATA, "location_id, calendar_id or slot_time not filled, create appointment failed.", "400")
 
@@ -45,7 +45,9 @@ class OrderDoingSubscriber {
                 }
         
                 const validated = await validator(PostMakeAppointmentReq, dataInput)
-                await this.appointment_.makeAppointment(validated)
+
+                // the slot hold of the checkout become the appointment
+                await this.appointment_.makeAppointment({ ...validated, hold_id })
             }
         });
     }
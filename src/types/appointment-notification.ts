@@ -0,0 +1,59 @@
+import { AppointmentStatus } from "../models/appointment"
+
+// payload of the appointment lifecycle events, enough for a notification template without querying again
+export type AppointmentEventData = {
+    id: string
+    appointment: {
+        id: string
+        display_id: number
+        status: AppointmentStatus
+        is_confirmed: boolean
+        code: string | null
+        from: Date | null
+        to: Date | null
+        // IANA time zone of the calendar or its location
+        timezone: string
+    }
+    customer: {
+        id: string | null
+        email: string | null
+        first_name: string | null
+        last_name: string | null
+        phone: string | null
+    } | null
+    location: {
+        id: string
+        title: string | null
+        address_1: string | null
+        address_2: string | null
+        city: string | null
+        province: string | null
+        postal_code: string | null
+        country_code: string | null
+        phone: string | null
+    } | null
+    calendar: {
+        id: string
+        name: string
+    } | null
+    order: {
+        id: string
+        display_id: number
+    } | null
+}
+
+// what fetchData give to the templates, the times are also formatted in the time zone of the appointment
+export type AppointmentTemplateData = AppointmentEventData & {
+    event: string
+    local: {
+        date: string | null
+        start_time: string | null
+        end_time: string | null
+    }
+}
+
+export type AppointmentNotificationAttachment = {
+    name: string
+    base64: string
+    type: string
+}
@@ -0,0 +1,30 @@
+export type CreateAppointmentPolicyInput = {
+    location_id?: string | null
+    product_id?: string | null
+    name?: string | null
+    free_cancellation_min?: number | null
+    late_cancellation_fee_percent?: number
+    cancellation_cutoff_min?: number | null
+    reschedule_cutoff_min?: number | null
+    max_reschedules?: number | null
+    metadata?: Record<string, unknown>
+}
+
+export type UpdateAppointmentPolicyInput = Partial<CreateAppointmentPolicyInput>;
+
+export type CancellationDecision = {
+    // null when no policy applies, the cancellation is free
+    policy_id: string | null
+    fee_percent: number
+    // amounts in the currency of the order, amount is what was paid for the appointment
+    amount: number
+    fee_amount: number
+    refund_amount: number
+    // the order only pay the appointment and it's only authorized, the authorization is canceled instead of a refund
+    release_authorization: boolean
+}
+
+export type selector = {
+    location_id?: string
+    product_id?: string
+}
@@ -0,0 +1,13 @@
+import { AppointmentEventData } from "./appointment-notification"
+
+export enum ReminderChannel {
+    EMAIL = "email",
+    SMS = "sms",
+}
+
+// data of the appointment.reminder_email and appointment.reminder_sms events
+export type AppointmentReminderData = AppointmentEventData & {
+    channel: ReminderChannel
+    // the offset which is due, in minutes before the appointment start
+    offset_min: number
+}
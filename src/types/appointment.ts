@@ -1,4 +1,6 @@
 import { AppointmentStatus } from "../models/appointment"
+import { CalendarTimeperiod } from "../models/calendar-timeperiod"
+import { SlotBuffer } from "./location"
 
 export type CreateAppointmentInput = {
     notified_via_email_at?: Date | null
@@ -8,9 +10,22 @@ export type CreateAppointmentInput = {
     order_id: string
     is_confirmed: boolean
     status: AppointmentStatus
+    items?: CreateAppointmentItemInput[]
     metadata?: Record<string, unknown>
 }
 
+export type CreateAppointmentItemInput = {
+    line_item_id: string
+    quantity: number
+    duration_min: number
+}
+
+// a line item of the order to book, every remaining quantity when quantity is not set
+export type AppointmentItemInput = {
+    item_id: string
+    quantity?: number
+}
+
 export type UpdateAppointmentInput = {
     notified_via_email_at?: Date | null
     notified_via_sms_at?: Date | null
@@ -19,13 +34,89 @@ export type UpdateAppointmentInput = {
     order_id?: string
     is_confirmed?: boolean
     status?: AppointmentStatus
+    canceled_at?: Date | null
+    canceled_by?: string | null
+    cancellation_reason?: string | null
+    reschedule_history?: AppointmentRescheduleEntry[] | null
     metadata?: Record<string, unknown>
 };
 
+export type CancelAppointmentInput = {
+    // id of the admin user or the customer
+    canceled_by?: string | null
+    reason?: string | null
+    // check the cancellation policy and keep its fee, admins can cancel without it
+    apply_policy?: boolean
+}
+
+export type RescheduleAppointmentInput = {
+    slot_time: Date | string
+    // another calendar of the same location, the current calendar when not set
+    calendar_id?: string
+    // id of the admin user or the customer
+    rescheduled_by?: string | null
+    // check the reschedule policy, admins can reschedule without it
+    apply_policy?: boolean
+}
+
+export type AppointmentRescheduleEntry = {
+    from: string | null
+    to: string | null
+    calendar_id: string | null
+    rescheduled_at: string
+    rescheduled_by: string | null
+}
+
 export type selector = {
     code?: string
     name?: string
     order_id?: string
     from?: Date
     to?: Date
-}
\ No newline at end of file
+}
+
+export type ServiceTime = {
+    duration_min: number
+    buffer_before_min?: number
+    buffer_after_min?: number
+}
+
+export type MakeAppointmentInput = {
+    order_id: string
+    location_id: string
+    calendar_id: string
+    slot_time: Date | string
+    hold_id?: string
+    // the service items booked, every service item not booked yet when not set
+    items?: AppointmentItemInput[]
+    // start when the previous appointment of the order ends, not on the slot grid
+    // slot_time is then the end of the previous appointment with its buffer after, the buffer before is added to it
+    is_chained?: boolean
+}
+
+// one appointment of makeAppointments, it start when the previous one ends without slot_time
+export type MakeAppointmentBooking = Omit<MakeAppointmentInput, "order_id" | "slot_time" | "is_chained"> & {
+    slot_time?: Date | string
+}
+
+export type CheckSlotTimeInput = {
+    location_id: string
+    calendar_id: string
+    slot_time: Date | string
+    serviceTime: ServiceTime
+    // the hold which is turned into the appointment
+    hold?: CalendarTimeperiod | null
+    is_chained?: boolean
+    excludeTimeperiodIds?: string[]
+}
+
+export type SlotTimeCheck = {
+    serviceTime: ServiceTime
+    // start of the appointment, after the buffer before for a chained appointment
+    slot_time: Date
+    slot_time_until: Date
+    buffer: SlotBuffer
+    // slot time plus the buffer, blocked in the calendar
+    blocked_from: Date
+    blocked_until: Date
+}
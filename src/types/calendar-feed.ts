@@ -0,0 +1,13 @@
+import { CalendarFeed } from "../models/calendar-feed"
+
+export type CreateCalendarFeedInput = {
+    name?: string | null
+    include_customer_details?: boolean
+    metadata?: Record<string, unknown>
+}
+
+// the token is only given here, the feed keep its hash
+export type CreatedCalendarFeed = {
+    feed: CalendarFeed
+    token: string
+}
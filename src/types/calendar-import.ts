@@ -0,0 +1,14 @@
+export type CreateCalendarImportSourceInput = {
+    name?: string | null
+    url: string
+    is_enabled?: boolean
+    metadata?: Record<string, unknown>
+}
+
+export type UpdateCalendarImportSourceInput = Partial<CreateCalendarImportSourceInput>;
+
+export type ImportCalendarResult = {
+    created: number
+    updated: number
+    removed: number
+}
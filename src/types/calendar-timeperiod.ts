@@ -6,13 +6,41 @@ export type CreateCalendarTimeperiodInput = {
     to: Date | string
     type: string
     calendar_id: string
+    rrule?: string | null
+    exdates?: Date[] | null
+    timezone?: string | null
+    recurring_parent_id?: string | null
+    recurrence_id?: Date | null
+    expires_at?: Date | null
+    external_uid?: string | null
+    import_source_id?: string | null
     metadata?: Record<string, unknown>
 }
 
-export type UpdateCalendarTimeperiodInput = CreateCalendarTimeperiodInput;
+export type UpdateCalendarTimeperiodInput = Partial<CreateCalendarTimeperiodInput>;
+
+// which occurrences of a recurring timeperiod a change is applied to
+export enum RecurrenceScope {
+    THIS = "this",
+    FOLLOWING = "following",
+    ALL = "all",
+}
+
+export type CalendarTimeperiodOccurrence = {
+    id: string
+    title: string | null
+    type: string | null
+    calendar_id: string | null
+    from: Date
+    to: Date
+    rrule: string | null
+    // start of the occurrence in its series, null for a single timeperiod
+    recurrence_id: Date | null
+    metadata: Record<string, unknown>
+}
 
 export type selector = {
     from?: DateComparisonOperator
     to?: DateComparisonOperator
     calendar_id: string
-}
\ No newline at end of file
+}
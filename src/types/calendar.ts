@@ -1,6 +1,14 @@
 export type CreateCalendarInput = {
     name: string
     color: string
+    timezone?: string | null
+    slot_interval_min?: number | null
+    slot_alignment_min?: number | null
+    buffer_before_min?: number
+    buffer_after_min?: number
+    min_notice_min?: number | null
+    max_horizon_days?: number | null
+    same_day_cutoff?: string | null
     metadata?: Record<string, unknown>
 }
 
@@ -13,6 +13,13 @@ export type UpdateDefaultWorkingHourInput = {
     is_working_day?: boolean
 }
 
+// one working interval of a weekday, a weekday can have several
+export type DefaultWorkingHourInterval = {
+    day: number
+    from: string
+    to: string
+}
+
 export type selector = {
     name?: string
 }
\ No newline at end of file
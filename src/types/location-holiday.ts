@@ -0,0 +1,31 @@
+import { HolidaySource } from "../models/location-holiday"
+
+export type UpsertLocationHolidayInput = {
+    date: string
+    name: string
+    uid: string
+    metadata?: Record<string, unknown>
+}
+
+export type UpdateLocationHolidayInput = {
+    name?: string
+    is_enabled?: boolean
+    metadata?: Record<string, unknown>
+}
+
+export type ImportLocationHolidaysInput = {
+    source: HolidaySource
+    // years of the bundled holidays, default this year and the next one
+    years?: number[]
+    // content of the .ics file
+    ics?: string
+    // identify the imported .ics file, a re-import with the same key replace its holidays
+    // without key the holidays of the file are added and updated, none is removed
+    ics_key?: string
+}
+
+export type ImportLocationHolidaysResult = {
+    created: number
+    updated: number
+    removed: number
+}
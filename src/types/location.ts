@@ -1,3 +1,5 @@
+import { TimeInterval } from "../utils/availability"
+
 export type CreateLocationInput = {
     title: string
     company_id: string
@@ -10,6 +12,12 @@ export type CreateLocationInput = {
     province: string
     postal_code: string
     phone: string
+    timezone?: string
+    slot_interval_min?: number
+    slot_alignment_min?: number | null
+    min_notice_min?: number
+    max_horizon_days?: number | null
+    same_day_cutoff?: string | null
     metadata?: Record<string, unknown>
 }
 
@@ -17,4 +25,34 @@ export type UpdateLocationInput = CreateLocationInput;
 
 export type selector = {
     code?: string
-}
\ No newline at end of file
+}
+export type SlotConfig = {
+    timezone: string
+    slot_interval_min: number
+    slot_alignment_min: number
+    buffer_before_min: number
+    buffer_after_min: number
+    min_notice_min: number
+    max_horizon_days: number | null
+    same_day_cutoff: string | null
+}
+
+export type BookingWindow = {
+    earliest_start: Date
+    latest_start: Date | null
+    notice_until: Date
+    same_day_closed_until: Date | null
+}
+
+export type SlotBuffer = {
+    before: number
+    after: number
+}
+
+export type Availability = SlotConfig & {
+    booking_window: BookingWindow
+    from: Date
+    to: Date
+    days: string[]
+    intervals: TimeInterval[]
+}
@@ -0,0 +1,21 @@
+export type OpeningHour = {
+    from: string
+    to: string
+}
+
+export type CreateOpeningHourOverrideInput = {
+    location_id: string
+    date: string
+    title?: string
+    is_working_day: boolean
+    hours?: OpeningHour[]
+    metadata?: Record<string, unknown>
+}
+
+export type UpdateOpeningHourOverrideInput = {
+    date?: string
+    title?: string
+    is_working_day?: boolean
+    hours?: OpeningHour[]
+    metadata?: Record<string, unknown>
+}
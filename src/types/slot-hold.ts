@@ -0,0 +1,14 @@
+export type CreateSlotHoldInput = {
+    location_id: string
+    calendar_id: string
+    slot_time: Date | string
+}
+
+// cart.context.data_make_appointment
+export type SlotHoldContext = {
+    location_id: string
+    calendar_id: string
+    slot_time: string
+    hold_id?: string
+    hold_expires_at?: string
+}
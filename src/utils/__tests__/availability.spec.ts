@@ -0,0 +1,168 @@
+import {
+  clipIntervals,
+  getWallClockInterval,
+  mergeIntervals,
+  subtractIntervals,
+  TimeInterval,
+} from "../availability";
+
+const interval = (from: string, to: string): TimeInterval => ({
+  from: new Date(from),
+  to: new Date(to),
+});
+
+const toISO = (intervals: TimeInterval[]) =>
+  intervals.map((i) => [i.from.toISOString(), i.to.toISOString()]);
+
+describe("mergeIntervals", () => {
+  it("sorts and joins the intervals that overlap or touch", () => {
+    const result = mergeIntervals([
+      interval("2023-01-02T14:00:00Z", "2023-01-02T16:00:00Z"),
+      interval("2023-01-02T09:00:00Z", "2023-01-02T11:00:00Z"),
+      interval("2023-01-02T10:00:00Z", "2023-01-02T12:00:00Z"),
+      interval("2023-01-02T12:00:00Z", "2023-01-02T13:00:00Z"),
+    ]);
+
+    expect(toISO(result)).toEqual([
+      ["2023-01-02T09:00:00.000Z", "2023-01-02T13:00:00.000Z"],
+      ["2023-01-02T14:00:00.000Z", "2023-01-02T16:00:00.000Z"],
+    ]);
+  });
+
+  it("keeps an interval inside another one from shortening it", () => {
+    const result = mergeIntervals([
+      interval("2023-01-02T09:00:00Z", "2023-01-02T17:00:00Z"),
+      interval("2023-01-02T10:00:00Z", "2023-01-02T11:00:00Z"),
+    ]);
+
+    expect(toISO(result)).toEqual([
+      ["2023-01-02T09:00:00.000Z", "2023-01-02T17:00:00.000Z"],
+    ]);
+  });
+
+  it("drops the empty intervals and doesn't change the input", () => {
+    const input = [
+      interval("2023-01-02T09:00:00Z", "2023-01-02T09:00:00Z"),
+      interval("2023-01-02T10:00:00Z", "2023-01-02T11:00:00Z"),
+      interval("2023-01-02T10:30:00Z", "2023-01-02T12:00:00Z"),
+    ];
+
+    expect(toISO(mergeIntervals(input))).toEqual([
+      ["2023-01-02T10:00:00.000Z", "2023-01-02T12:00:00.000Z"],
+    ]);
+    expect(input[1].to.toISOString()).toEqual("2023-01-02T11:00:00.000Z");
+  });
+});
+
+describe("subtractIntervals", () => {
+  const workingHours = [interval("2023-01-02T09:00:00Z", "2023-01-02T17:00:00Z")];
+
+  it("cuts a hole for a removed interval inside the base", () => {
+    const result = subtractIntervals(workingHours, [
+      interval("2023-01-02T12:00:00Z", "2023-01-02T13:00:00Z"),
+    ]);
+
+    expect(toISO(result)).toEqual([
+      ["2023-01-02T09:00:00.000Z", "2023-01-02T12:00:00.000Z"],
+      ["2023-01-02T13:00:00.000Z", "2023-01-02T17:00:00.000Z"],
+    ]);
+  });
+
+  it("cuts the edges and merges the overlapping removed intervals", () => {
+    const result = subtractIntervals(workingHours, [
+      interval("2023-01-02T08:00:00Z", "2023-01-02T10:00:00Z"),
+      interval("2023-01-02T14:00:00Z", "2023-01-02T16:00:00Z"),
+      interval("2023-01-02T15:00:00Z", "2023-01-02T18:00:00Z"),
+    ]);
+
+    expect(toISO(result)).toEqual([
+      ["2023-01-02T10:00:00.000Z", "2023-01-02T14:00:00.000Z"],
+    ]);
+  });
+
+  it("returns nothing when the base is covered", () => {
+    const result = subtractIntervals(workingHours, [
+      interval("2023-01-02T08:00:00Z", "2023-01-02T18:00:00Z"),
+    ]);
+
+    expect(result).toEqual([]);
+  });
+
+  it("keeps the base when the removed intervals only touch it", () => {
+    const result = subtractIntervals(workingHours, [
+      interval("2023-01-02T07:00:00Z", "2023-01-02T09:00:00Z"),
+      interval("2023-01-02T17:00:00Z", "2023-01-02T18:00:00Z"),
+    ]);
+
+    expect(toISO(result)).toEqual([
+      ["2023-01-02T09:00:00.000Z", "2023-01-02T17:00:00.000Z"],
+    ]);
+  });
+});
+
+describe("clipIntervals", () => {
+  it("cuts the intervals to the range and drops the ones outside", () => {
+    const result = clipIntervals(
+      [
+        interval("2023-01-01T20:00:00Z", "2023-01-02T02:00:00Z"),
+        interval("2023-01-02T09:00:00Z", "2023-01-02T17:00:00Z"),
+        interval("2023-01-02T22:00:00Z", "2023-01-03T06:00:00Z"),
+        interval("2023-01-03T09:00:00Z", "2023-01-03T17:00:00Z"),
+      ],
+      new Date("2023-01-02T00:00:00Z"),
+      new Date("2023-01-03T00:00:00Z")
+    );
+
+    expect(toISO(result)).toEqual([
+      ["2023-01-02T00:00:00.000Z", "2023-01-02T02:00:00.000Z"],
+      ["2023-01-02T09:00:00.000Z", "2023-01-02T17:00:00.000Z"],
+      ["2023-01-02T22:00:00.000Z", "2023-01-03T00:00:00.000Z"],
+    ]);
+  });
+});
+
+describe("getWallClockInterval", () => {
+  it("uses the wall clock of UTC by default", () => {
+    const result = getWallClockInterval("2023-01-02", "09:00", "17:30:15");
+
+    expect(toISO([result])).toEqual([
+      ["2023-01-02T09:00:00.000Z", "2023-01-02T17:30:15.000Z"],
+    ]);
+  });
+
+  it("ends an overnight range on the next day", () => {
+    const result = getWallClockInterval("2023-01-02", "22:00", "06:00", "Europe/Berlin");
+
+    expect(toISO([result])).toEqual([
+      ["2023-01-02T21:00:00.000Z", "2023-01-03T05:00:00.000Z"],
+    ]);
+  });
+
+  it("keeps the working hours on the wall clock when the daylight saving time starts", () => {
+    const before = getWallClockInterval("2023-03-25", "09:00", "17:00", "Europe/Berlin");
+    const after = getWallClockInterval("2023-03-26", "09:00", "17:00", "Europe/Berlin");
+
+    expect(toISO([before, after])).toEqual([
+      ["2023-03-25T08:00:00.000Z", "2023-03-25T16:00:00.000Z"],
+      ["2023-03-26T07:00:00.000Z", "2023-03-26T15:00:00.000Z"],
+    ]);
+  });
+
+  it("keeps the working hours on the wall clock when the daylight saving time ends", () => {
+    const before = getWallClockInterval("2023-10-28", "09:00", "17:00", "Europe/Berlin");
+    const after = getWallClockInterval("2023-10-29", "09:00", "17:00", "Europe/Berlin");
+
+    expect(toISO([before, after])).toEqual([
+      ["2023-10-28T07:00:00.000Z", "2023-10-28T15:00:00.000Z"],
+      ["2023-10-29T08:00:00.000Z", "2023-10-29T16:00:00.000Z"],
+    ]);
+  });
+
+  it("gives an overnight range over the change of the clock its real length", () => {
+    const result = getWallClockInterval("2023-10-28", "22:00", "06:00", "Europe/Berlin");
+
+    expect(toISO([result])).toEqual([
+      ["2023-10-28T20:00:00.000Z", "2023-10-29T05:00:00.000Z"],
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  escapeText,
+  foldLine,
+  ICalEventInput,
+  parseICalendar,
+  renderICalendar,
+  unescapeText,
+  unfoldLines,
+} from "../ical";
+
+const appointment: ICalEventInput = {
+  uid: "app_01@example.com",
+  sequence: 2,
+  start: new Date("2023-03-20T10:00:00Z"),
+  end: new Date("2023-03-20T11:00:00Z"),
+  summary: "Haircut, wash; dry",
+  description: "Line one\nC:\\path\\new, with a backslash before n",
+  location: "Main Street 1; Berlin",
+  stamp: new Date("2023-03-01T08:00:00Z"),
+};
+
+describe("escapeText", () => {
+  it.each([
+    "comma, semicolon; colon: done",
+    "two\nlines",
+    "a backslash \\ alone",
+    "an escaped \\n is not a new line",
+    "\\,\\;\\\\",
+  ])("round-trips %j", (value) => {
+    expect(unescapeText(escapeText(value))).toEqual(value);
+  });
+
+  it("escapes the backslash before the other characters", () => {
+    expect(escapeText("C:\\new, one;\nnext")).toEqual("C:\\\\new\\, one\\;\\nnext");
+  });
+
+  it("unescapes an upper case N as a new line", () => {
+    expect(unescapeText("one\\Ntwo")).toEqual("one\ntwo");
+  });
+});
+
+describe("foldLine", () => {
+  it("folds a long line in lines of 75 octets which unfold to the same line", () => {
+    const line = `DESCRIPTION:${"äbc".repeat(40)}`;
+    const folded = foldLine(line);
+    const parts = folded.split("\r\n");
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part) => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75));
+    expect(unfoldLines(folded)).toEqual([line]);
+  });
+
+  it("keeps a short line", () => {
+    expect(foldLine("SUMMARY:Haircut")).toEqual("SUMMARY:Haircut");
+  });
+});
+
+describe("renderICalendar", () => {
+  it("publishes the events", () => {
+    const content = renderICalendar([appointment], { name: "Salon; Berlin" });
+
+    expect(content.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(content.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(content).toContain("\r\nMETHOD:PUBLISH\r\n");
+    expect(content).toContain("\r\nX-WR-CALNAME:Salon\\; Berlin\r\n");
+    expect(content).toContain("\r\nDTSTART:20230320T100000Z\r\n");
+    expect(content).toContain("\r\nSTATUS:CONFIRMED\r\n");
+  });
+
+  it("round-trips the events through the parser", () => {
+    const [event] = parseICalendar(renderICalendar([appointment]));
+
+    expect(event).toEqual(
+      expect.objectContaining({
+        uid: appointment.uid,
+        sequence: 2,
+        start: appointment.start,
+        end: appointment.end,
+        summary: appointment.summary,
+        description: appointment.description,
+        location: appointment.location,
+        status: "CONFIRMED",
+        all_day: false,
+        rrule: null,
+        recurrence_id: null,
+      })
+    );
+  });
+
+  it("publishes a canceled event with STATUS:CANCELLED", () => {
+    const content = renderICalendar([
+      { ...appointment, sequence: 3, status: "CANCELLED" },
+    ]);
+    const [event] = parseICalendar(content);
+
+    expect(content).toContain("\r\nMETHOD:PUBLISH\r\n");
+    expect(content).toContain("\r\nSTATUS:CANCELLED\r\n");
+    expect(content).not.toContain("STATUS:CONFIRMED");
+    expect(event.status).toEqual("CANCELLED");
+    expect(event.sequence).toEqual(3);
+    expect(event.uid).toEqual(appointment.uid);
+  });
+});
+
+describe("parseICalendar", () => {
+  it("reads the escaped text, the folded lines and the time zone of the event", () => {
+    const content = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "BEGIN:VEVENT",
+      "UID:ev-1",
+      "DTSTART;TZID=Europe/Berlin:20230327T120000",
+      "DTEND;TZID=Europe/Berlin:20230327T130000",
+      "SUMMARY:Lunch\\, team",
+      "DESCRIPTION:first\\nsecond and a long desc",
+      " ription",
+      "RRULE:FREQ=WEEKLY;COUNT=3",
+      "EXDATE;TZID=Europe/Berlin:20230403T120000",
+      "STATUS:cancelled",
+      "BEGIN:VALARM",
+      "DESCRIPTION:Reminder",
+      "END:VALARM",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const [event] = parseICalendar(content);
+
+    expect(event).toEqual(
+      expect.objectContaining({
+        uid: "ev-1",
+        start: new Date("2023-03-27T10:00:00Z"),
+        end: new Date("2023-03-27T11:00:00Z"),
+        summary: "Lunch, team",
+        description: "first\nsecond and a long description",
+        rrule: "FREQ=WEEKLY;COUNT=3",
+        exdates: [new Date("2023-04-03T10:00:00Z")],
+        status: "CANCELLED",
+      })
+    );
+  });
+
+  it("rejects a file which is not an iCalendar file", () => {
+    expect(() => parseICalendar("hello")).toThrow("not an iCalendar file");
+  });
+});
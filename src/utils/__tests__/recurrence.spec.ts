@@ -0,0 +1,129 @@
+import {
+  expandRecurrence,
+  getRecurrenceEnd,
+  isRecurrenceOccurrence,
+  normalizeRecurrenceRule,
+  parseRecurrenceRule,
+  RecurringPeriod,
+  splitRecurrenceRule,
+} from "../recurrence";
+
+// a weekly lunch break on monday 12:00 - 13:00 in Berlin, the daylight saving time start on 2023-03-26
+const lunchBreak: RecurringPeriod = {
+  from: new Date("2023-03-20T11:00:00Z"),
+  to: new Date("2023-03-20T12:00:00Z"),
+  rrule: "FREQ=WEEKLY;COUNT=5",
+  timezone: "Europe/Berlin",
+};
+
+const starts = (series: RecurringPeriod, from: string, to: string) =>
+  expandRecurrence(series, new Date(from), new Date(to)).map((o) =>
+    o.from.toISOString()
+  );
+
+describe("parseRecurrenceRule", () => {
+  it("accepts the rule with or without the RRULE prefix", () => {
+    expect(normalizeRecurrenceRule("RRULE:freq=weekly;byday=mo,we")).toEqual(
+      normalizeRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,WE")
+    );
+  });
+
+  it("rejects a rule with its own start or time zone", () => {
+    expect(() =>
+      parseRecurrenceRule("DTSTART:20230101T100000Z\nRRULE:FREQ=DAILY")
+    ).toThrow();
+    expect(() => parseRecurrenceRule("FREQ=DAILY;TZID=Europe/Berlin")).toThrow();
+  });
+
+  it("rejects a rule without FREQ", () => {
+    expect(() => parseRecurrenceRule("COUNT=3")).toThrow("needs a valid FREQ");
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("keeps the occurrences on the wall clock over the change of the clock", () => {
+    const result = expandRecurrence(
+      lunchBreak,
+      new Date("2023-03-01T00:00:00Z"),
+      new Date("2023-05-01T00:00:00Z")
+    );
+
+    expect(result.map((o) => [o.from.toISOString(), o.to.toISOString()])).toEqual([
+      ["2023-03-20T11:00:00.000Z", "2023-03-20T12:00:00.000Z"],
+      ["2023-03-27T10:00:00.000Z", "2023-03-27T11:00:00.000Z"],
+      ["2023-04-03T10:00:00.000Z", "2023-04-03T11:00:00.000Z"],
+      ["2023-04-10T10:00:00.000Z", "2023-04-10T11:00:00.000Z"],
+      ["2023-04-17T10:00:00.000Z", "2023-04-17T11:00:00.000Z"],
+    ]);
+  });
+
+  it("leaves out the exception dates", () => {
+    const series = { ...lunchBreak, exdates: [new Date("2023-03-27T10:00:00Z")] };
+
+    expect(starts(series, "2023-03-01T00:00:00Z", "2023-04-05T00:00:00Z")).toEqual([
+      "2023-03-20T11:00:00.000Z",
+      "2023-04-03T10:00:00.000Z",
+    ]);
+  });
+
+  it("only returns the occurrences which overlap the range", () => {
+    expect(starts(lunchBreak, "2023-03-27T10:30:00Z", "2023-04-03T10:00:00Z")).toEqual([
+      "2023-03-27T10:00:00.000Z",
+    ]);
+  });
+});
+
+describe("isRecurrenceOccurrence", () => {
+  it("checks the start against the wall clock of the series", () => {
+    expect(isRecurrenceOccurrence(lunchBreak, new Date("2023-03-27T10:00:00Z"))).toBe(true);
+    expect(isRecurrenceOccurrence(lunchBreak, new Date("2023-03-27T11:00:00Z"))).toBe(false);
+    expect(isRecurrenceOccurrence(lunchBreak, new Date("2023-04-24T10:00:00Z"))).toBe(false);
+  });
+});
+
+describe("getRecurrenceEnd", () => {
+  it("returns the end of the last occurrence", () => {
+    expect(getRecurrenceEnd(lunchBreak)).toEqual(new Date("2023-04-17T11:00:00Z"));
+    expect(
+      getRecurrenceEnd({ ...lunchBreak, rrule: "FREQ=WEEKLY;UNTIL=20230410T100000Z" })
+    ).toEqual(new Date("2023-04-10T11:00:00Z"));
+  });
+
+  it("returns null for a series which repeat forever", () => {
+    expect(getRecurrenceEnd({ ...lunchBreak, rrule: "FREQ=WEEKLY" })).toBeNull();
+  });
+});
+
+describe("splitRecurrenceRule", () => {
+  const occurrence = new Date("2023-04-03T10:00:00Z");
+
+  it("ends the old series before the occurrence and keeps the rest of the count", () => {
+    const split = splitRecurrenceRule(lunchBreak, occurrence);
+
+    const before = parseRecurrenceRule(split.before);
+    expect(before.count).toBeFalsy();
+    expect(before.until).toEqual(new Date("2023-04-03T09:59:59Z"));
+    expect(parseRecurrenceRule(split.after).count).toEqual(3);
+
+    expect(
+      starts({ ...lunchBreak, rrule: split.before }, "2023-03-01T00:00:00Z", "2023-05-01T00:00:00Z")
+    ).toEqual(["2023-03-20T11:00:00.000Z", "2023-03-27T10:00:00.000Z"]);
+    expect(
+      starts(
+        { ...lunchBreak, from: occurrence, to: new Date("2023-04-03T11:00:00Z"), rrule: split.after },
+        "2023-03-01T00:00:00Z",
+        "2023-05-01T00:00:00Z"
+      )
+    ).toEqual([
+      "2023-04-03T10:00:00.000Z",
+      "2023-04-10T10:00:00.000Z",
+      "2023-04-17T10:00:00.000Z",
+    ]);
+  });
+
+  it("keeps the rule of a series which repeat forever for the new series", () => {
+    const split = splitRecurrenceRule({ ...lunchBreak, rrule: "FREQ=WEEKLY" }, occurrence);
+
+    expect(split.after).toEqual(normalizeRecurrenceRule("FREQ=WEEKLY"));
+  });
+});
@@ -0,0 +1,238 @@
+import { addDay, formatDate, fromZonedTime, toZonedTime } from "./date-utils";
+
+export type TimeInterval = {
+  from: Date;
+  to: Date;
+};
+
+export type SlotTimeOptions = {
+  interval: number;
+  alignment?: number | null;
+  duration?: number;
+  buffer_before?: number;
+  buffer_after?: number;
+  earliest_start?: Date;
+  latest_start?: Date | null;
+};
+
+export type DaySlotTimes = {
+  date: string;
+  slot_times: string[];
+};
+
+// the slot interval and alignment that can be set on a location or calendar
+export const SLOT_INTERVALS = [5, 10, 15, 30, 60];
+
+const minuteInMs = 60 * 1000;
+
+/**
+ * Turn a wall clock time range of one day into a real interval, a "to" before "from" end on the next day
+ * @param day date key "YYYY-MM-DD" in the time zone
+ * @param from wall clock time "HH:mm" or "HH:mm:ss"
+ * @param to wall clock time "HH:mm" or "HH:mm:ss"
+ * @param timeZone IANA time zone of the day
+ */
+export function getWallClockInterval(
+  day: string,
+  from: string,
+  to: string,
+  timeZone: string = "UTC"
+): TimeInterval {
+  const dateCurr = new Date(day); // UTC midnight, the UTC fields are used as wall clock time
+
+  // Todo split "00:01:02" to object ["00", "01", "02"] also convert to number
+  const fromTime = from.split(":").map((a) => +a);
+  const toTime = to.split(":").map((a) => +a);
+
+  const wallFrom = new Date(dateCurr);
+  let wallTo = new Date(dateCurr);
+  wallFrom.setUTCHours(fromTime[0], fromTime[1], fromTime[2] || 0);
+  wallTo.setUTCHours(toTime[0], toTime[1], toTime[2] || 0);
+
+  // Todo If `from` time more than `to` time than, we should add 1 day in `to`
+  if (wallFrom.getTime() > wallTo.getTime()) {
+    wallTo = addDay(wallTo, 1);
+  }
+
+  // convert the wall clock time to the real time, so daylight saving time don't shift the working hour
+  return {
+    from: fromZonedTime(wallFrom, timeZone),
+    to: fromZonedTime(wallTo, timeZone),
+  };
+}
+
+/**
+ * Sort the intervals and join the ones that overlap or touch each other
+ * @param intervals list of intervals, can be unsorted
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter((i) => i.to.getTime() > i.from.getTime())
+    .map((i) => ({ from: new Date(i.from), to: new Date(i.to) }))
+    .sort((a, b) => a.from.getTime() - b.from.getTime());
+
+  const result: TimeInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = result[result.length - 1];
+
+    if (last && interval.from.getTime() <= last.to.getTime()) {
+      if (interval.to.getTime() > last.to.getTime()) last.to = interval.to;
+      continue;
+    }
+
+    result.push(interval);
+  }
+
+  return result;
+}
+
+/**
+ * Remove every part of `base` that is covered by `remove`
+ * @param base intervals to subtract from
+ * @param remove intervals to take out
+ */
+export function subtractIntervals(
+  base: TimeInterval[],
+  remove: TimeInterval[]
+): TimeInterval[] {
+  const removeMerged = mergeIntervals(remove);
+  const result: TimeInterval[] = [];
+
+  for (const interval of mergeIntervals(base)) {
+    let cursor = interval.from.getTime();
+    const end = interval.to.getTime();
+
+    for (const r of removeMerged) {
+      if (r.to.getTime() <= cursor) continue;
+      if (r.from.getTime() >= end) break;
+
+      if (r.from.getTime() > cursor) {
+        result.push({ from: new Date(cursor), to: new Date(r.from) });
+      }
+      cursor = Math.max(cursor, r.to.getTime());
+    }
+
+    if (cursor < end) {
+      result.push({ from: new Date(cursor), to: new Date(end) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Cut the intervals so nothing is outside from - to
+ */
+export function clipIntervals(
+  intervals: TimeInterval[],
+  from: Date,
+  to: Date
+): TimeInterval[] {
+  const result: TimeInterval[] = [];
+
+  for (const interval of intervals) {
+    const f = Math.max(interval.from.getTime(), from.getTime());
+    const t = Math.min(interval.to.getTime(), to.getTime());
+    if (f < t) result.push({ from: new Date(f), to: new Date(t) });
+  }
+
+  return result;
+}
+
+export function isIntervalOverlapping(a: TimeInterval, b: TimeInterval) {
+  return (
+    a.from.getTime() < b.to.getTime() && b.from.getTime() < a.to.getTime()
+  );
+}
+
+/**
+ * Check if from - to fits completely inside one of the available intervals
+ * @param from start of the wanted time
+ * @param to end of the wanted time
+ * @param available merged available intervals
+ */
+export function isIntervalAvailable(
+  from: Date,
+  to: Date,
+  available: TimeInterval[]
+) {
+  const f = new Date(from).getTime();
+  const t = new Date(to).getTime();
+
+  return mergeIntervals(available).some(
+    (i) => i.from.getTime() <= f && i.to.getTime() >= t
+  );
+}
+
+/**
+ * Check if a start time is on the slot grid, counted from the local midnight
+ * @param start start time to check
+ * @param timeZone IANA time zone of the calendar
+ * @param options slot interval and alignment in minutes
+ */
+export function isSlotStartAligned(
+  start: Date,
+  timeZone: string,
+  options: SlotTimeOptions
+) {
+  const zoned = toZonedTime(start, timeZone);
+  const minuteOfDay = zoned.getUTCHours() * 60 + zoned.getUTCMinutes();
+
+  if (zoned.getUTCSeconds() !== 0 || zoned.getUTCMilliseconds() !== 0) return false;
+  if (minuteOfDay % options.interval !== 0) return false;
+
+  return minuteOfDay % (options.alignment || options.interval) === 0;
+}
+
+/**
+ * Render the intervals as bookable "HH:mm" start times per day, a start time is only added when the whole duration is free
+ * @param intervals merged available intervals
+ * @param days the date keys to render, in the time zone
+ * @param timeZone IANA time zone used for the date keys and the times
+ * @param options slot interval, alignment, duration and buffer in minutes, duration default to one interval, and the booking window
+ */
+export function renderSlotTimes(
+  intervals: TimeInterval[],
+  days: string[],
+  timeZone: string = "UTC",
+  options: SlotTimeOptions = { interval: 5 }
+): DaySlotTimes[] {
+  const result: Record<string, string[]> = {};
+  const step = options.interval * minuteInMs;
+  const duration = (options.duration || options.interval) * minuteInMs;
+  const bufferBefore = (options.buffer_before || 0) * minuteInMs;
+  const bufferAfter = (options.buffer_after || 0) * minuteInMs;
+
+  for (const day of days) result[day] = [];
+
+  for (const interval of mergeIntervals(intervals)) {
+    // start on the grid of the slot interval, counted from the local midnight, leaving room for the buffer before
+    const earliest = interval.from.getTime() + bufferBefore;
+    const offset = toZonedTime(earliest, timeZone).getTime() - earliest;
+    let cursor = Math.ceil((earliest + offset) / step) * step - offset;
+
+    for (; cursor + duration + bufferAfter <= interval.to.getTime(); cursor += step) {
+      if (!isSlotStartAligned(new Date(cursor), timeZone, options)) continue;
+      if (options.earliest_start && cursor < options.earliest_start.getTime()) continue;
+      if (options.latest_start && cursor > options.latest_start.getTime()) break;
+
+      const zoned = toZonedTime(cursor, timeZone);
+      const key = formatDate(zoned);
+
+      if (!result[key]) continue;
+
+      let hours: any = zoned.getUTCHours();
+      let minutes: any = zoned.getUTCMinutes();
+      if (hours < 10) hours = `0${hours}`;
+      if (minutes < 10) minutes = `0${minutes}`;
+
+      result[key].push(`${hours}:${minutes}`);
+    }
+  }
+
+  return Object.entries(result).map(([date, slot_times]) => ({
+    date,
+    slot_times,
+  }));
+}
@@ -1,5 +1,5 @@
-export function formatDate(date) {
-  let d = new Date(date),
+export function formatDate(date, timeZone?: string) {
+  let d = timeZone ? toZonedTime(date, timeZone) : new Date(date),
     month = "" + (d.getUTCMonth() + 1),
     day = "" + d.getUTCDate(),
     year = d.getUTCFullYear();
@@ -10,6 +10,13 @@ export function formatDate(date) {
   return [year, month, day].join("-");
 }
 
+// "HH:mm" of the date, in the time zone when it's given
+export function formatTime(date, timeZone?: string) {
+  const d = timeZone ? toZonedTime(date, timeZone) : new Date(date);
+
+  return [d.getUTCHours(), d.getUTCMinutes()].map((x) => `${x}`.padStart(2, "0")).join(":");
+}
+
 export function addDay(date, day) {
   const d = new Date(date);
   d.setUTCDate(d.getUTCDate() + day);
@@ -27,14 +34,14 @@ export function subDay(date, day) {
  * @param f From Date
  * @param t To Date
  * @param byMinutes divided by how many minutes
+ * @param timeZone IANA time zone used for the date keys and the times
  */
-export function divideTimes(f: Date, t: Date, byMinutes: number = 5) {
+export function divideTimes(f: Date, t: Date, byMinutes: number = 5, timeZone: string = "UTC") {
   const minutes = (t.getTime() - f.getTime()) / 1000 / 60;
   const result = {};
 
   for (let i = 0; i < minutes / byMinutes; i++) {
-    const dateNow = new Date(f);
-    dateNow.setUTCMinutes(f.getUTCMinutes() + byMinutes * i);
+    const dateNow = toZonedTime(f.getTime() + byMinutes * i * 60 * 1000, timeZone);
 
     const key = formatDate(dateNow);
 
@@ -68,4 +75,68 @@ export function zeroTimes(date) {
   x.setUTCSeconds(0);
   x.setUTCMilliseconds(0);
   return new Date(x);
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the offset in minutes of the given IANA time zone against UTC at the given instant
+ * @param date the instant to check, the offset changes with daylight saving time
+ * @param timeZone IANA time zone name, e.g. "Europe/Berlin"
+ */
+export function getTimezoneOffset(date, timeZone: string) {
+  const d = new Date(date);
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(d);
+
+  const get = (type: string) => +parts.find((p) => p.type === type).value;
+  const asUTC = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+
+  return (asUTC - (d.getTime() - d.getUTCMilliseconds())) / 1000 / 60;
+}
+
+/**
+ * Shift an instant so its UTC fields hold the wall clock time of the time zone,
+ * so formatDate and getUTCHours can be used on it
+ * @param date the real instant
+ * @param timeZone IANA time zone name
+ */
+export function toZonedTime(date, timeZone: string = "UTC") {
+  const d = new Date(date);
+  return new Date(d.getTime() + getTimezoneOffset(d, timeZone) * 60 * 1000);
+}
+
+/**
+ * Opposite of toZonedTime, takes a Date whose UTC fields hold the wall clock time of the time zone and return the real instant
+ * @param date wall clock time stored in the UTC fields
+ * @param timeZone IANA time zone name
+ */
+export function fromZonedTime(date, timeZone: string = "UTC") {
+  const wallClock = new Date(date).getTime();
+
+  // the offset of the wall clock itself can be wrong around daylight saving changes, so check it again on the guess
+  const guess = wallClock - getTimezoneOffset(wallClock, timeZone) * 60 * 1000;
+  return new Date(wallClock - getTimezoneOffset(guess, timeZone) * 60 * 1000);
+}
+
+export function isValidTimezone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,20 @@
+import { MedusaError } from "medusa-core-utils";
+
+// postgres error of an EXCLUDE constraint, like the one which keep appointments of a calendar from overlapping
+export const EXCLUSION_VIOLATION = "23P01";
+
+/**
+ * Thrown when a slot was taken by another booking at the same moment, the error-handler answer it with 409
+ */
+export class SlotConflictError extends MedusaError {
+  static readonly Type = "slot_conflict";
+  static readonly Code = "slot_conflict";
+
+  constructor(message = "The slot time was booked by another request") {
+    super(SlotConflictError.Type, message, SlotConflictError.Code);
+  }
+}
+
+export function isExclusionViolation(error): boolean {
+  return error?.code === EXCLUSION_VIOLATION;
+}
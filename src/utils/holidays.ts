@@ -0,0 +1,202 @@
+import { addDay, formatDate } from "./date-utils";
+
+export type HolidayRule = {
+  key: string;
+  name: string;
+  // fixed date
+  month?: number;
+  day?: number;
+  // days after easter sunday
+  easter?: number;
+  // nth week day (0 = sunday) of the month, -1 is the last one
+  weekday?: number;
+  nth?: number;
+  // last week day (0 = sunday) before month / day, like the german "Buß- und Bettag"
+  before?: boolean;
+  // only in these provinces, every province when not set
+  provinces?: string[];
+};
+
+export type BundledHoliday = {
+  key: string;
+  name: string;
+  date: string;
+};
+
+// Todo the holidays which follow the lunar calendar (like Idul Fitri or Nyepi) can't be calculated, import them with an iCalendar file
+export const HOLIDAY_RULES: Record<string, HolidayRule[]> = {
+  at: [
+    { key: "new-year", name: "Neujahr", month: 1, day: 1 },
+    { key: "epiphany", name: "Heilige Drei Könige", month: 1, day: 6 },
+    { key: "easter-monday", name: "Ostermontag", easter: 1 },
+    { key: "labour-day", name: "Staatsfeiertag", month: 5, day: 1 },
+    { key: "ascension", name: "Christi Himmelfahrt", easter: 39 },
+    { key: "whit-monday", name: "Pfingstmontag", easter: 50 },
+    { key: "corpus-christi", name: "Fronleichnam", easter: 60 },
+    { key: "assumption", name: "Mariä Himmelfahrt", month: 8, day: 15 },
+    { key: "national-day", name: "Nationalfeiertag", month: 10, day: 26 },
+    { key: "all-saints", name: "Allerheiligen", month: 11, day: 1 },
+    { key: "immaculate-conception", name: "Mariä Empfängnis", month: 12, day: 8 },
+    { key: "christmas", name: "Christtag", month: 12, day: 25 },
+    { key: "st-stephen", name: "Stefanitag", month: 12, day: 26 },
+  ],
+  de: [
+    { key: "new-year", name: "Neujahr", month: 1, day: 1 },
+    { key: "epiphany", name: "Heilige Drei Könige", month: 1, day: 6, provinces: ["BW", "BY", "ST"] },
+    { key: "womens-day", name: "Internationaler Frauentag", month: 3, day: 8, provinces: ["BE", "MV"] },
+    { key: "good-friday", name: "Karfreitag", easter: -2 },
+    { key: "easter-monday", name: "Ostermontag", easter: 1 },
+    { key: "labour-day", name: "Tag der Arbeit", month: 5, day: 1 },
+    { key: "ascension", name: "Christi Himmelfahrt", easter: 39 },
+    { key: "whit-monday", name: "Pfingstmontag", easter: 50 },
+    { key: "corpus-christi", name: "Fronleichnam", easter: 60, provinces: ["BW", "BY", "HE", "NW", "RP", "SL"] },
+    { key: "assumption", name: "Mariä Himmelfahrt", month: 8, day: 15, provinces: ["SL"] },
+    { key: "childrens-day", name: "Weltkindertag", month: 9, day: 20, provinces: ["TH"] },
+    { key: "german-unity", name: "Tag der Deutschen Einheit", month: 10, day: 3 },
+    { key: "reformation-day", name: "Reformationstag", month: 10, day: 31, provinces: ["BB", "HB", "HH", "MV", "NI", "SN", "ST", "SH", "TH"] },
+    { key: "all-saints", name: "Allerheiligen", month: 11, day: 1, provinces: ["BW", "BY", "NW", "RP", "SL"] },
+    { key: "repentance-day", name: "Buß- und Bettag", month: 11, day: 23, weekday: 3, before: true, provinces: ["SN"] },
+    { key: "christmas", name: "1. Weihnachtstag", month: 12, day: 25 },
+    { key: "boxing-day", name: "2. Weihnachtstag", month: 12, day: 26 },
+  ],
+  fr: [
+    { key: "new-year", name: "Jour de l'an", month: 1, day: 1 },
+    { key: "easter-monday", name: "Lundi de Pâques", easter: 1 },
+    { key: "labour-day", name: "Fête du Travail", month: 5, day: 1 },
+    { key: "victory-day", name: "Victoire 1945", month: 5, day: 8 },
+    { key: "ascension", name: "Ascension", easter: 39 },
+    { key: "whit-monday", name: "Lundi de Pentecôte", easter: 50 },
+    { key: "bastille-day", name: "Fête nationale", month: 7, day: 14 },
+    { key: "assumption", name: "Assomption", month: 8, day: 15 },
+    { key: "all-saints", name: "Toussaint", month: 11, day: 1 },
+    { key: "armistice", name: "Armistice", month: 11, day: 11 },
+    { key: "christmas", name: "Noël", month: 12, day: 25 },
+  ],
+  // England and Wales, substitute days are not included
+  gb: [
+    { key: "new-year", name: "New Year's Day", month: 1, day: 1 },
+    { key: "good-friday", name: "Good Friday", easter: -2 },
+    { key: "easter-monday", name: "Easter Monday", easter: 1 },
+    { key: "early-may", name: "Early May Bank Holiday", month: 5, weekday: 1, nth: 1 },
+    { key: "spring", name: "Spring Bank Holiday", month: 5, weekday: 1, nth: -1 },
+    { key: "summer", name: "Summer Bank Holiday", month: 8, weekday: 1, nth: -1 },
+    { key: "christmas", name: "Christmas Day", month: 12, day: 25 },
+    { key: "boxing-day", name: "Boxing Day", month: 12, day: 26 },
+  ],
+  id: [
+    { key: "new-year", name: "Tahun Baru Masehi", month: 1, day: 1 },
+    { key: "good-friday", name: "Wafat Isa Almasih", easter: -2 },
+    { key: "labour-day", name: "Hari Buruh Internasional", month: 5, day: 1 },
+    { key: "ascension", name: "Kenaikan Isa Almasih", easter: 39 },
+    { key: "pancasila-day", name: "Hari Lahir Pancasila", month: 6, day: 1 },
+    { key: "independence-day", name: "Hari Kemerdekaan", month: 8, day: 17 },
+    { key: "christmas", name: "Hari Raya Natal", month: 12, day: 25 },
+  ],
+  nl: [
+    { key: "new-year", name: "Nieuwjaarsdag", month: 1, day: 1 },
+    { key: "easter-sunday", name: "Eerste Paasdag", easter: 0 },
+    { key: "easter-monday", name: "Tweede Paasdag", easter: 1 },
+    { key: "kings-day", name: "Koningsdag", month: 4, day: 27 },
+    { key: "liberation-day", name: "Bevrijdingsdag", month: 5, day: 5 },
+    { key: "ascension", name: "Hemelvaartsdag", easter: 39 },
+    { key: "whit-sunday", name: "Eerste Pinksterdag", easter: 49 },
+    { key: "whit-monday", name: "Tweede Pinksterdag", easter: 50 },
+    { key: "christmas", name: "Eerste Kerstdag", month: 12, day: 25 },
+    { key: "boxing-day", name: "Tweede Kerstdag", month: 12, day: 26 },
+  ],
+  us: [
+    { key: "new-year", name: "New Year's Day", month: 1, day: 1 },
+    { key: "mlk-day", name: "Martin Luther King Jr. Day", month: 1, weekday: 1, nth: 3 },
+    { key: "presidents-day", name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+    { key: "memorial-day", name: "Memorial Day", month: 5, weekday: 1, nth: -1 },
+    { key: "juneteenth", name: "Juneteenth", month: 6, day: 19 },
+    { key: "independence-day", name: "Independence Day", month: 7, day: 4 },
+    { key: "labor-day", name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+    { key: "columbus-day", name: "Columbus Day", month: 10, weekday: 1, nth: 2 },
+    { key: "veterans-day", name: "Veterans Day", month: 11, day: 11 },
+    { key: "thanksgiving", name: "Thanksgiving Day", month: 11, weekday: 4, nth: 4 },
+    { key: "christmas", name: "Christmas Day", month: 12, day: 25 },
+  ],
+};
+
+/**
+ * Easter sunday of the gregorian calendar (anonymous gregorian algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function getRuleDate(rule: HolidayRule, year: number): Date {
+  if (typeof rule.easter === "number") {
+    return addDay(getEasterSunday(year), rule.easter);
+  }
+
+  if (typeof rule.weekday === "number" && rule.before) {
+    return subDayUntilWeekday(
+      addDay(new Date(Date.UTC(year, rule.month - 1, rule.day)), -1),
+      rule.weekday
+    );
+  }
+
+  if (typeof rule.weekday === "number") {
+    if (rule.nth === -1) {
+      const lastDay = new Date(Date.UTC(year, rule.month, 0));
+      return subDayUntilWeekday(lastDay, rule.weekday);
+    }
+
+    const firstDay = new Date(Date.UTC(year, rule.month - 1, 1));
+    const shift = (rule.weekday - firstDay.getUTCDay() + 7) % 7;
+    return addDay(firstDay, shift + (rule.nth - 1) * 7);
+  }
+
+  return new Date(Date.UTC(year, rule.month - 1, rule.day));
+}
+
+function subDayUntilWeekday(date: Date, weekday: number) {
+  const shift = (date.getUTCDay() - weekday + 7) % 7;
+  return addDay(date, -shift);
+}
+
+// "BY", "DE-BY" and "by" are the same province
+function normalizeProvince(province?: string | null) {
+  return (province || "").trim().toUpperCase().split("-").pop();
+}
+
+/**
+ * Get the bundled public holidays of a country for one year
+ * @param countryCode iso 2 country code of the location
+ * @param province province code of the location, the regional holidays are only added when it matches
+ * @param year year of the holidays
+ */
+export function getBundledHolidays(
+  countryCode: string,
+  province: string | null,
+  year: number
+): BundledHoliday[] {
+  const rules = HOLIDAY_RULES[(countryCode || "").toLowerCase()] || [];
+  const provinceCode = normalizeProvince(province);
+
+  return rules
+    .filter((rule) => !rule.provinces || rule.provinces.includes(provinceCode))
+    .map((rule) => ({
+      key: rule.key,
+      name: rule.name,
+      date: formatDate(getRuleDate(rule, year)),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,360 @@
+import { MedusaError } from "medusa-core-utils";
+import { addDay, formatDate, fromZonedTime, isValidTimezone } from "./date-utils";
+
+export type ICalProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+export type ICalEvent = {
+  uid: string;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  end: Date;
+  all_day: boolean;
+  // "YYYY-MM-DD" of an all-day event, end_date is exclusive like DTEND
+  start_date: string | null;
+  end_date: string | null;
+  status: string | null;
+  transparency: string | null;
+  rrule: string | null;
+  exdates: Date[];
+  recurrence_id: Date | null;
+  sequence: number;
+};
+
+/**
+ * Split the content in lines and join the folded ones, RFC 5545 3.1
+ */
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length);
+}
+
+// in one pass, an escaped backslash followed by an n is a backslash and an n, not a new line
+export function unescapeText(value: string) {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+}
+
+/**
+ * Parse a content line like "DTSTART;TZID=Europe/Berlin:20230101T100000"
+ */
+export function parseProperty(line: string): ICalProperty {
+  // the value start at the first colon which is not inside a quoted param
+  let inQuote = false;
+  let index = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuote = !inQuote;
+    if (line[i] === ":" && !inQuote) {
+      index = i;
+      break;
+    }
+  }
+
+  if (index === -1) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `iCalendar line ${line} is not valid`
+    );
+  }
+
+  const [name, ...rawParams] = line.slice(0, index).split(";");
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+/**
+ * Parse a DATE or DATE-TIME value, a floating time is read in the given time zone
+ * @param property DTSTART, DTEND, EXDATE ... property
+ * @param timeZone time zone of floating times
+ */
+export function parseDateValue(
+  value: string,
+  params: Record<string, string> = {},
+  timeZone: string = "UTC"
+): { date: Date; all_day: boolean; day: string | null } {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+
+  if (!match) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `iCalendar date ${value} is not valid`
+    );
+  }
+
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  const wallClock = new Date(
+    Date.UTC(+y, +m - 1, +d, +(hh || 0), +(mm || 0), +(ss || 0))
+  );
+
+  if (params.VALUE === "DATE" || typeof hh === "undefined") {
+    return {
+      date: fromZonedTime(wallClock, timeZone),
+      all_day: true,
+      day: `${y}-${m}-${d}`,
+    };
+  }
+
+  if (utc) return { date: wallClock, all_day: false, day: null };
+
+  const tz = params.TZID && isValidTimezone(params.TZID) ? params.TZID : timeZone;
+
+  return { date: fromZonedTime(wallClock, tz), all_day: false, day: null };
+}
+
+function parseDuration(value: string) {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return 0;
+
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    ((+(w || 0) * 7 + +(d || 0)) * 24 * 60 * 60 +
+      +(h || 0) * 60 * 60 +
+      +(m || 0) * 60 +
+      +(s || 0)) *
+    1000;
+
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Parse the VEVENT components of an iCalendar file
+ * @param content content of the .ics file
+ * @param timeZone time zone of floating times and all-day events
+ */
+export function parseICalendar(
+  content: string,
+  timeZone: string = "UTC"
+): ICalEvent[] {
+  const lines = unfoldLines(content);
+
+  if (!lines.length || lines[0].trim().toUpperCase() !== "BEGIN:VCALENDAR") {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `The file is not an iCalendar file`
+    );
+  }
+
+  const events: ICalEvent[] = [];
+  let properties: ICalProperty[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line.trim());
+
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VEVENT") {
+      properties = [];
+      depth = 0;
+      continue;
+    }
+
+    if (!properties) continue;
+
+    // skip the properties of nested components, like VALARM
+    if (property.name === "BEGIN") depth++;
+    if (property.name === "END" && depth > 0) {
+      depth--;
+      continue;
+    }
+    if (depth > 0) continue;
+
+    if (property.name === "END" && property.value.toUpperCase() === "VEVENT") {
+      const event = toEvent(properties, timeZone);
+      if (event) events.push(event);
+      properties = null;
+      continue;
+    }
+
+    properties.push(property);
+  }
+
+  return events;
+}
+
+function toEvent(properties: ICalProperty[], timeZone: string): ICalEvent | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const text = (name: string) => {
+    const property = get(name);
+    return property ? unescapeText(property.value) : null;
+  };
+
+  const dtstart = get("DTSTART");
+  const uid = text("UID");
+
+  // an event without start can't block anything
+  if (!dtstart || !uid) return null;
+
+  const start = parseDateValue(dtstart.value, dtstart.params, timeZone);
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+
+  let end: Date;
+  let endDay: string | null = null;
+
+  if (dtend) {
+    const parsed = parseDateValue(dtend.value, dtend.params, timeZone);
+    end = parsed.date;
+    endDay = parsed.day;
+  } else if (duration) {
+    end = new Date(start.date.getTime() + parseDuration(duration.value));
+  } else if (start.all_day) {
+    // an all-day event without end take the whole day
+    endDay = formatDate(addDay(start.day, 1));
+    end = fromZonedTime(new Date(endDay), timeZone);
+  } else {
+    end = new Date(start.date);
+  }
+
+  if (start.all_day && !endDay) endDay = formatDate(addDay(start.day, 1));
+
+  const exdates = properties
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) =>
+      p.value
+        .split(",")
+        .map((v) => parseDateValue(v, p.params, timeZone).date)
+    );
+
+  const recurrenceId = get("RECURRENCE-ID");
+
+  return {
+    uid,
+    summary: text("SUMMARY"),
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    start: start.date,
+    end,
+    all_day: start.all_day,
+    start_date: start.day,
+    end_date: start.all_day ? endDay : null,
+    status: text("STATUS")?.toUpperCase() || null,
+    transparency: text("TRANSP")?.toUpperCase() || null,
+    rrule: get("RRULE")?.value || null,
+    exdates,
+    recurrence_id: recurrenceId
+      ? parseDateValue(recurrenceId.value, recurrenceId.params, timeZone).date
+      : null,
+    sequence: +(text("SEQUENCE") || 0),
+  };
+}
+
+export type ICalEventInput = {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  geo?: { latitude: number; longitude: number } | null;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  // TRANSPARENT when the event doesn't make the attendee busy, like working hours
+  transparency?: "OPAQUE" | "TRANSPARENT";
+  // DTSTAMP, when the file is created
+  stamp?: Date;
+};
+
+export type ICalRenderOptions = {
+  // only PUBLISH, a canceled event is published with STATUS:CANCELLED and a higher sequence
+  // a CANCEL needs an ORGANIZER and ATTENDEE, RFC 5546
+  method?: "PUBLISH";
+  prodId?: string;
+  // X-WR-CALNAME, name of a subscribed calendar
+  name?: string;
+};
+
+export function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/([,;])/g, "\\$1")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line longer than 75 octets, RFC 5545 3.1
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // the next lines start with a space, which count in their 75 octets
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// DATE-TIME in UTC, like 20230101T100000Z
+export function formatDateTimeValue(date: Date) {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Render VEVENT components in an iCalendar file
+ * @param events the events, an updated event keep its uid with a higher sequence
+ * @param options METHOD and PRODID of the calendar
+ */
+export function renderICalendar(events: ICalEventInput[], options: ICalRenderOptions = {}): string {
+  const { method = "PUBLISH", prodId = "-//medusa-plugin-service//Appointments//EN", name } = options;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${prodId}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${formatDateTimeValue(event.stamp ?? new Date())}`,
+      `DTSTART:${formatDateTimeValue(event.start)}`,
+      `DTEND:${formatDateTimeValue(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.geo) lines.push(`GEO:${event.geo.latitude};${event.geo.longitude}`);
+    if (event.transparency) lines.push(`TRANSP:${event.transparency}`);
+
+    lines.push(`STATUS:${event.status ?? "CONFIRMED"}`, "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
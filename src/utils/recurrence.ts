@@ -0,0 +1,187 @@
+import { MedusaError } from "medusa-core-utils";
+import { Options, RRule } from "rrule";
+import { TimeInterval } from "./availability";
+import { fromZonedTime, toZonedTime } from "./date-utils";
+
+export type RecurringPeriod = {
+  from: Date;
+  to: Date;
+  rrule: string;
+  exdates?: Date[] | null;
+  timezone?: string | null;
+};
+
+export type RecurrenceSplit = {
+  // rule of the series which keep the occurrences before the split
+  before: string;
+  // rule of the new series which start at the split
+  after: string;
+};
+
+/**
+ * Parse an RFC 5545 RRULE value, like "FREQ=WEEKLY;BYDAY=MO,WE", the "RRULE:" prefix is optional
+ * DTSTART is not allowed because the start of the timeperiod is used
+ */
+export function parseRecurrenceRule(rule: string): Partial<Options> {
+  const value = rule.trim().replace(/^RRULE:/i, "");
+
+  if (!value || /[\r\n]/.test(value) || /DTSTART|TZID/i.test(value)) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `Recurrence rule ${rule} is not a valid RRULE value`
+    );
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(value.toUpperCase());
+  } catch (e) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `Recurrence rule ${rule} is not a valid RRULE value`
+    );
+  }
+
+  if (typeof options.freq === "undefined" || options.freq === null) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `Recurrence rule ${rule} needs a valid FREQ`
+    );
+  }
+
+  return options;
+}
+
+function stringifyRecurrenceRule(options: Partial<Options>) {
+  return RRule.optionsToString(options).replace(/^RRULE:/, "");
+}
+
+/**
+ * Validate the rule and return it in the form it is saved, without the "RRULE:" prefix
+ */
+export function normalizeRecurrenceRule(rule: string): string {
+  return stringifyRecurrenceRule(parseRecurrenceRule(rule));
+}
+
+// the occurrences are calculated on the wall clock of the time zone, so a weekly 12:00 break stay on 12:00 after a DST change
+function buildRule(series: RecurringPeriod) {
+  const timeZone = series.timezone || "UTC";
+  const options = parseRecurrenceRule(series.rrule);
+
+  return new RRule({
+    ...options,
+    dtstart: toZonedTime(series.from, timeZone),
+    until: options.until ? toZonedTime(options.until, timeZone) : null,
+  });
+}
+
+function toOccurrence(series: RecurringPeriod, start: Date): TimeInterval {
+  const timeZone = series.timezone || "UTC";
+  const wallDuration =
+    toZonedTime(series.to, timeZone).getTime() -
+    toZonedTime(series.from, timeZone).getTime();
+
+  return {
+    from: fromZonedTime(start, timeZone),
+    to: fromZonedTime(new Date(start.getTime() + wallDuration), timeZone),
+  };
+}
+
+/**
+ * Expand a recurring timeperiod to the occurrences which overlap from - to, the exception dates are left out
+ * @param series timeperiod with rrule, from and to are the first occurrence
+ * @param from start of the range
+ * @param to end of the range
+ */
+export function expandRecurrence(
+  series: RecurringPeriod,
+  from: Date,
+  to: Date
+): TimeInterval[] {
+  const timeZone = series.timezone || "UTC";
+  const rule = buildRule(series);
+  const duration =
+    new Date(series.to).getTime() - new Date(series.from).getTime();
+  const exdates = (series.exdates || []).map((d) => new Date(d).getTime());
+
+  // widen the range by the duration and a day, so occurrences starting before from are found and offsets don't matter
+  const dayInMs = 24 * 60 * 60 * 1000;
+  const rangeFrom = toZonedTime(
+    new Date(from).getTime() - duration - dayInMs,
+    timeZone
+  );
+  const rangeTo = toZonedTime(new Date(to).getTime() + dayInMs, timeZone);
+
+  return rule
+    .between(rangeFrom, rangeTo, true)
+    .map((start) => toOccurrence(series, start))
+    .filter((o) => !exdates.includes(o.from.getTime()))
+    .filter(
+      (o) =>
+        o.from.getTime() < new Date(to).getTime() &&
+        o.to.getTime() > new Date(from).getTime()
+    );
+}
+
+/**
+ * Check if start is the start of one of the occurrences of the series, exception dates included
+ */
+export function isRecurrenceOccurrence(series: RecurringPeriod, start: Date) {
+  const timeZone = series.timezone || "UTC";
+  const zoned = toZonedTime(start, timeZone);
+
+  return buildRule(series).between(zoned, zoned, true).length > 0;
+}
+
+/**
+ * Get the end of the last occurrence, null when the series repeat forever
+ */
+export function getRecurrenceEnd(series: RecurringPeriod): Date | null {
+  const options = parseRecurrenceRule(series.rrule);
+
+  if (!options.count && !options.until) return null;
+
+  const rule = buildRule(series);
+  const last = options.count
+    ? rule.all().pop()
+    : rule.before(rule.options.until, true);
+
+  // no occurrence at all, the series end with the first period
+  if (!last) return new Date(series.to);
+
+  return toOccurrence(series, last).to;
+}
+
+/**
+ * Split the rule of a series at one occurrence, for "this and following" changes
+ * the old series stop before the occurrence and the new one keep the rest of the count
+ * @param series series to split
+ * @param occurrence start of the occurrence which become the first of the new series
+ */
+export function splitRecurrenceRule(
+  series: RecurringPeriod,
+  occurrence: Date
+): RecurrenceSplit {
+  const timeZone = series.timezone || "UTC";
+  const options = parseRecurrenceRule(series.rrule);
+  const rule = buildRule(series);
+  const zoned = toZonedTime(occurrence, timeZone);
+
+  const before = stringifyRecurrenceRule({
+    ...options,
+    count: null,
+    until: new Date(new Date(occurrence).getTime() - 1000),
+  });
+
+  let afterOptions = options;
+  if (options.count) {
+    const passed = rule.between(
+      rule.options.dtstart,
+      new Date(zoned.getTime() - 1000),
+      true
+    ).length;
+    afterOptions = { ...options, count: Math.max(options.count - passed, 1) };
+  }
+
+  return { before, after: stringifyRecurrenceRule(afterOptions) };
+}
@@ -0,0 +1,22 @@
+import { registerDecorator, ValidationOptions } from "class-validator"
+import { isValidTimezone } from "../date-utils"
+
+// class-validator in this version don't have IsTimeZone yet, so we check it with Intl
+export function IsTimezone(validationOptions?: ValidationOptions) {
+  return function (object: Object, propertyName: string) {
+    registerDecorator({
+      name: "isTimezone",
+      target: object.constructor,
+      propertyName: propertyName,
+      options: {
+        message: `${propertyName} must be a valid IANA time zone`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown) {
+          return typeof value === "string" && isValidTimezone(value)
+        },
+      },
+    })
+  }
+}